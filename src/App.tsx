@@ -7,16 +7,38 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import Home from "./pages/Home";
 import EnergyMeter from "./pages/energy_meter";
 import Channels from "./pages/channels";
+import Dashboard from "./pages/dashboard";
+import Login from "./pages/login";
+import Audit from "./pages/audit";
+import Tariffs from "./pages/tariffs";
+import Presets from "./pages/presets";
+import NotFound from "./pages/not_found";
+import { RequireAuth, RequirePermission } from "./components/AuthProvider";
 
 function App() {
   return (
     <div>
-      <Navigation />
       <BrowserRouter>
+        <Navigation />
         <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/energy_meter" element={<EnergyMeter />} />
-          <Route path="/channels" element={<Channels />} />
+          <Route path="/login" element={<Login />} />
+          <Route element={<RequireAuth />}>
+            <Route element={<RequirePermission permission="report:run" />}>
+              <Route path="/" element={<Home />} />
+              <Route path="/presets" element={<Presets />} />
+            </Route>
+            <Route element={<RequirePermission permission="config:view" />}>
+              <Route path="/energy_meter" element={<EnergyMeter />} />
+              <Route path="/energy_meter/:id" element={<EnergyMeter />} />
+              <Route path="/channels" element={<Channels />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/tariffs" element={<Tariffs />} />
+            </Route>
+            <Route element={<RequirePermission permission="audit:view" />}>
+              <Route path="/audit" element={<Audit />} />
+            </Route>
+            <Route path="*" element={<NotFound />} />
+          </Route>
         </Routes>
       </BrowserRouter>
     </div>
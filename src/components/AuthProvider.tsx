@@ -0,0 +1,152 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { ProgressSpinner } from "primereact/progressspinner";
+import { Dialog } from "primereact/dialog";
+import { fetchSession, login as loginRequest, logout as logoutRequest, onUnauthorized } from "../utils/ApiClient";
+import LoginForm from "./LoginForm";
+import { hasPermission, Permission } from "../utils/Permissions";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * The authentication context
+ */
+interface AuthContextValue {
+    /**
+     * The logged in user, null when nobody is logged in
+     */
+    user: User | null;
+    /**
+     * The session is checked on startup
+     */
+    isLoading: boolean;
+    /**
+     * The session expired while the user was working
+     */
+    sessionExpired: boolean;
+    /**
+     * Check a permission of the logged in user
+     */
+    can: (permission: Permission) => boolean;
+    login: (username: string, password: string) => Promise<User>;
+    logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * The authentication context of components
+ * @returns the authentication context
+ */
+export function useAuth(): AuthContextValue {
+    const context = useContext(AuthContext);
+    if (context === null) {
+        throw new Error("useAuth must be used inside AuthProvider");
+    }
+    return context;
+}
+
+interface AuthProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Provider of the logged in user
+ * @returns the AuthProvider ReactComponent
+ */
+const AuthProvider = (props: AuthProviderProps) => {
+    const queryClient = useQueryClient();
+    const [user, setUser] = useState<User | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [sessionExpired, setSessionExpired] = useState(false);
+
+    /**
+     * Check the session on startup
+     */
+    useEffect(() => {
+        fetchSession().then((sessionUser) => setUser(sessionUser)).catch(() => setUser(null)).finally(() => setIsLoading(false));
+    }, []);
+
+    /**
+     * Any 401 response means the session is expired
+     */
+    useEffect(() => {
+        return onUnauthorized(() => setSessionExpired(true));
+    }, []);
+
+    const login = useCallback(async (username: string, password: string) => {
+        const loggedIn = await loginRequest(username, password);
+        setUser(loggedIn);
+        setSessionExpired(false);
+        return loggedIn;
+    }, []);
+
+    const can = useCallback((permission: Permission) => hasPermission(user, permission), [user]);
+
+    const logout = useCallback(async () => {
+        try {
+            await logoutRequest();
+        } finally {
+            setUser(null);
+            setSessionExpired(false);
+            queryClient.clear();
+        }
+    }, [queryClient]);
+
+    return (
+        <AuthContext.Provider value={{ user, isLoading, sessionExpired, can, login, logout }}>
+            {props.children}
+        </AuthContext.Provider>
+    )
+}
+
+/**
+ * Route guard of protected pages. Without session it redirects to the login page. An expired session is renewed
+ * in a login dialog over the page, so the form the user was filling in stays as it was.
+ * @returns the RequireAuth ReactComponent
+ */
+export const RequireAuth = () => {
+    const { user, isLoading, sessionExpired } = useAuth();
+    const { t } = useTranslation();
+    const location = useLocation();
+
+    if (isLoading) {
+        return <div className="flex justify-content-center mt-5"><ProgressSpinner /></div>;
+    }
+    if (!user) {
+        return <Navigate to="/login" state={{ from: location }} replace />;
+    }
+    return (
+        <>
+            <Outlet />
+            <Dialog header={t("Session expired")} visible={sessionExpired} closable={false} onHide={() => { }} style={{ width: '30rem' }}>
+                <p>{t("Your session has expired. Please log in again to continue where you left off.")}</p>
+                <LoginForm defaultUsername={user.username} />
+            </Dialog>
+        </>
+    )
+}
+
+interface RequirePermissionProps {
+    permission: Permission;
+}
+
+/**
+ * Route guard of pages needing a permission
+ * @returns the RequirePermission ReactComponent
+ */
+export const RequirePermission = (props: RequirePermissionProps) => {
+    const { can } = useAuth();
+    const { t } = useTranslation();
+    if (!can(props.permission)) {
+        return (
+            <div className="card">
+                <h2>{t("Access denied")}</h2>
+                <p>{t("Your role does not allow to open this page.")}</p>
+            </div>
+        );
+    }
+    return <Outlet />;
+}
+
+export default AuthProvider;
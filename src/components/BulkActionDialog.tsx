@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Dialog } from "primereact/dialog";
+import { Button } from "primereact/button";
+import { ProgressBar } from "primereact/progressbar";
+import { BatchResult, runBatch } from "../utils/Batch";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * A bulk action on the selected rows of a table
+ */
+export interface BulkAction<T> {
+    /**
+     * Name of the action, e.g. "Disable"
+     */
+    title: string;
+    items: T[];
+    /**
+     * Display name of an item
+     */
+    itemLabel: (item: T) => string;
+    /**
+     * Description of the change of an item, shown before confirmation
+     */
+    change: (item: T) => string;
+    /**
+     * RestAPI call of an item
+     */
+    operation: (item: T) => Promise<unknown>;
+    /**
+     * RestAPI call reverting the operation of an item, offered as undo after success
+     */
+    undo?: (item: T) => Promise<unknown>;
+}
+
+interface BulkActionDialogProps<T> {
+    /**
+     * The action waiting for confirmation, or undefined when the dialog is closed
+     */
+    action?: BulkAction<T>;
+    onHide: () => void;
+    /**
+     * Called after the batch with the results of all items
+     */
+    onDone: (results: BatchResult<T>[]) => void;
+}
+
+/**
+ * Confirmation, progress and summary of a bulk action
+ * @returns the BulkActionDialog ReactComponent
+ */
+const BulkActionDialog = <T,>(props: BulkActionDialogProps<T>) => {
+    const { action, onHide, onDone } = props;
+    const { t } = useTranslation();
+
+    /**
+     * Progress of the running batch
+     */
+    const [progress, setProgress] = useState<{ done: number, total: number } | undefined>(undefined);
+    /**
+     * Results of the finished batch
+     */
+    const [results, setResults] = useState<BatchResult<T>[] | undefined>(undefined);
+
+    /**
+     * Start from the confirmation on a new action
+     */
+    useEffect(() => {
+        setProgress(undefined);
+        setResults(undefined);
+    }, [action]);
+
+    /**
+     * Run the confirmed action item by item
+     */
+    const run = async () => {
+        if (!action) {
+            return;
+        }
+        setProgress({ done: 0, total: action.items.length });
+        const batchResults = await runBatch(action.items, action.operation, (done, total) => setProgress({ done, total }));
+        setResults(batchResults);
+        onDone(batchResults);
+    }
+
+    const running = progress !== undefined && results === undefined;
+    const failures = (results ?? []).filter((result) => result.error !== undefined);
+    const succeeded = (results ?? []).filter((result) => result.error === undefined);
+
+    const footer = results ? (
+        <Button type="button" label={t("Close")} icon="pi pi-check" onClick={onHide} />
+    ) : (
+        <div>
+            <Button type="button" label={t("Cancel")} icon="pi pi-times" outlined disabled={running} onClick={onHide} />
+            <Button type="button" label={action ? t("{title} {count} items", { title: action.title, count: action.items.length }) : ''} icon="pi pi-check" loading={running} onClick={run} />
+        </div>
+    );
+
+    return (
+        <Dialog header={action?.title} visible={action !== undefined} onHide={() => !running && onHide()} footer={footer} style={{ width: '40vw' }}>
+            {action && !results && <>
+                <p className="mt-0">{t("The following changes will be made:")}</p>
+                <ul className="m-0 pl-4 overflow-auto" style={{ maxHeight: '40vh' }}>
+                    {action.items.map((item, index) => <li key={index}><span className="font-bold">{action.itemLabel(item)}</span>: {action.change(item)}</li>)}
+                </ul>
+                {progress && <ProgressBar className="mt-3" value={Math.round(progress.done * 100 / Math.max(progress.total, 1))} />}
+            </>}
+            {action && results && <div className="flex flex-column gap-2">
+                <span className="text-green-600"><i className="pi pi-check-circle mr-2"></i>{t("{count} of {total} succeeded", { count: succeeded.length, total: results.length })}</span>
+                {failures.length > 0 && <>
+                    <span className="text-red-500"><i className="pi pi-times-circle mr-2"></i>{t("{count} of {total} failed:", { count: failures.length, total: results.length })}</span>
+                    <ul className="m-0 pl-4 overflow-auto" style={{ maxHeight: '40vh' }}>
+                        {failures.map((failure, index) => <li key={index}><span className="font-bold">{action.itemLabel(failure.item)}</span>: {failure.error}</li>)}
+                    </ul>
+                </>}
+            </div>}
+        </Dialog>
+    );
+}
+
+export default BulkActionDialog;
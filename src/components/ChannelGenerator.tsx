@@ -0,0 +1,114 @@
+import { InputNumber } from "primereact/inputnumber";
+import { InputText } from "primereact/inputtext";
+import { Checkbox } from "primereact/checkbox";
+import { ProgressBar } from "primereact/progressbar";
+import { Button } from "primereact/button";
+import { BatchResult } from "../utils/Batch";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Options of generated channels
+ */
+export interface ChannelGeneratorOptions {
+    /**
+     * Generate channels on creation of the energy meter
+     */
+    generate: boolean;
+    count: number;
+    /**
+     * Channel name pattern, {n} is replaced by the channel number
+     */
+    pattern: string;
+    /**
+     * Number of the first channel
+     */
+    start: number;
+    enabled: boolean;
+}
+
+export const defaultChannelGeneratorOptions: ChannelGeneratorOptions = {
+    generate: false,
+    count: 12,
+    pattern: "Channel {n}",
+    start: 1,
+    enabled: true,
+};
+
+/**
+ * Generate channel rows of an energy meter
+ * @param energy_meter_id id of energy meter
+ * @param options generator options
+ * @returns the new channels
+ */
+export function generateChannels(energy_meter_id: number, options: ChannelGeneratorOptions): Omit<ChannelValues, "id">[] {
+    return Array.from({ length: options.count }, (_, idx) => {
+        const channel = options.start + idx;
+        return {
+            energy_meter_id: energy_meter_id,
+            channel: channel,
+            channel_name: options.pattern.replace(/\{n\}/g, String(channel)),
+            enabled: options.enabled,
+        };
+    });
+}
+
+/**
+ * Progress of channel creation
+ */
+export interface ChannelGeneratorProgress {
+    done: number;
+    total: number;
+}
+
+interface ChannelGeneratorProps {
+    value: ChannelGeneratorOptions;
+    onChange: (value: ChannelGeneratorOptions) => void;
+    progress?: ChannelGeneratorProgress;
+    /**
+     * Channels failed to create
+     */
+    failures: BatchResult<Omit<ChannelValues, "id">>[];
+    onRetry: () => void;
+}
+
+/**
+ * Channel generator of new energy meters
+ * @returns the ChannelGenerator ReactComponent
+ */
+const ChannelGenerator = (props: ChannelGeneratorProps) => {
+    const { value, onChange, progress, failures, onRetry } = props;
+    const { t } = useTranslation();
+    const running = progress !== undefined && progress.done < progress.total;
+    const locked = running || failures.length > 0;
+
+    return (
+        <div className="flex flex-column gap-2">
+            <div className="flex align-items-center gap-2">
+                <Checkbox inputId="generate" onChange={(event) => onChange({ ...value, generate: event.checked ? true : false })} checked={value.generate} disabled={locked}></Checkbox>
+                <label htmlFor="generate">{t("Generate channels")}</label>
+            </div>
+            {value.generate && <div className="flex flex-wrap align-items-center gap-2">
+                <label htmlFor="count">{t("Count")}</label>
+                <InputNumber inputId="count" value={value.count} onValueChange={(event) => onChange({ ...value, count: event.value ?? 1 })} min={1} max={64} size={3} disabled={locked} />
+                <label htmlFor="start">{t("First number")}</label>
+                <InputNumber inputId="start" value={value.start} onValueChange={(event) => onChange({ ...value, start: event.value ?? 1 })} min={1} size={3} disabled={locked} />
+                <label htmlFor="pattern">{t("Name pattern")}</label>
+                <InputText id="pattern" value={value.pattern} onChange={(event) => onChange({ ...value, pattern: event.target.value })} tooltip={t("{n} is replaced by the channel number")} disabled={locked} />
+                <Checkbox inputId="channelsEnabled" onChange={(event) => onChange({ ...value, enabled: event.checked ? true : false })} checked={value.enabled} disabled={locked}></Checkbox>
+                <label htmlFor="channelsEnabled">{t("Enabled")}</label>
+            </div>}
+            {progress && <ProgressBar value={Math.round(progress.done * 100 / Math.max(progress.total, 1))} />}
+            {failures.length > 0 && !running && <div className="flex flex-column gap-1">
+                <span className="text-red-500">{t("{count} of {total} channels could not be created:", { count: failures.length, total: progress?.total ?? failures.length })}</span>
+                <ul className="m-0">
+                    {failures.map((failure) => <li key={failure.item.channel}>{failure.item.channel_name}: {failure.error}</li>)}
+                </ul>
+                <div>
+                    <Button type="button" label={t("Retry failed")} icon="pi pi-refresh" onClick={onRetry} />
+                </div>
+            </div>}
+        </div>
+    )
+}
+
+export default ChannelGenerator;
@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "primereact/button";
+import { Tag } from "primereact/tag";
+import dayjs from "dayjs";
+import { errorMessage, probeEnergyMeter } from "../utils/ApiClient";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Address of a tested energy meter
+ */
+type ProbeTarget = Pick<EnergyMeterValues, "ip_address" | "port">;
+
+/**
+ * React query key of cached connection test results
+ * @param target address of energy meter
+ */
+export function probeQueryKey(target: ProbeTarget) {
+    return ["probe", target.ip_address, target.port];
+}
+
+/**
+ * Connection test mutation, the results are cached per energy meter address
+ * @param onError error handler of failed probe calls
+ */
+export function useConnectionTest(onError?: (message: string) => void) {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (target: ProbeTarget) => probeEnergyMeter(target),
+        onSuccess: (result, target) => {
+            queryClient.setQueryData(probeQueryKey(target), result);
+        },
+        onError: (err) => {
+            if (onError) {
+                onError(errorMessage(err));
+            }
+        }
+    });
+}
+
+/**
+ * Cached connection test result of an energy meter
+ * @param target address of energy meter
+ */
+function useProbeResult(target: ProbeTarget) {
+    const { data } = useQuery<ProbeResult>({
+        queryKey: probeQueryKey(target),
+        queryFn: () => probeEnergyMeter(target),
+        enabled: false,
+        cacheTime: Infinity,
+    });
+    return data;
+}
+
+interface ConnectionStatusTagProps {
+    target: ProbeTarget;
+}
+
+/**
+ * Status badge of the last connection test
+ * @returns the ConnectionStatusTag ReactComponent
+ */
+export const ConnectionStatusTag = (props: ConnectionStatusTagProps) => {
+    const result = useProbeResult(props.target);
+    const { t, dateTimeFormat } = useTranslation();
+    if (!result) {
+        return <Tag value={t("Not tested")} severity="info" />;
+    }
+    const testedAt = t("Tested at {time}", { time: dayjs(result.tested_at).format(dateTimeFormat) });
+    if (!result.reachable) {
+        return <Tag value={t("Offline")} severity="danger" title={result.error ? `${testedAt}: ${result.error}` : testedAt} />;
+    }
+    return <Tag value={result.latency_ms !== undefined ? t("Online {latency} ms", { latency: result.latency_ms }) : t("Online")} severity="success" title={testedAt} />;
+}
+
+interface ConnectionTestProps {
+    target: ProbeTarget;
+    onError?: (message: string) => void;
+}
+
+/**
+ * Test connection button with the details of the last test
+ * @returns the ConnectionTest ReactComponent
+ */
+const ConnectionTest = (props: ConnectionTestProps) => {
+    const { target, onError } = props;
+    const connectionTest = useConnectionTest(onError);
+    const result = useProbeResult(target);
+    const { t } = useTranslation();
+
+    return (
+        <div className="flex flex-column gap-2">
+            <div className="flex align-items-center gap-2">
+                <Button type="button" label={t("Test connection")} icon="pi pi-bolt" outlined loading={connectionTest.isLoading} disabled={!target.ip_address || !target.port} onClick={() => connectionTest.mutate(target)} />
+                <ConnectionStatusTag target={target} />
+            </div>
+            {result && <div className="grid">
+                <div className="col-4">{t("Latency:")}</div>
+                <div className="col-8">{result.latency_ms !== undefined ? `${result.latency_ms} ms` : '-'}</div>
+                <div className="col-4">{t("Meter clock:")}</div>
+                <div className="col-8">{result.meter_time ?? '-'}</div>
+                <div className="col-4">{t("Firmware:")}</div>
+                <div className="col-8">{result.firmware ?? '-'}</div>
+                {result.error && <>
+                    <div className="col-4">{t("Error:")}</div>
+                    <div className="col-8 text-red-500">{result.error}</div>
+                </>}
+            </div>}
+        </div>
+    )
+}
+
+export default ConnectionTest;
@@ -0,0 +1,120 @@
+import { useRef, useState } from "react";
+import { Button } from "primereact/button";
+import { OverlayPanel } from "primereact/overlaypanel";
+import { Dropdown } from "primereact/dropdown";
+import { CSVOptions, defaultCSVOptions, ExportColumn, ExportFormat, exportData, hungarianCSVOptions } from "../utils/Converter";
+import { errorMessage } from "../utils/ApiClient";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Local storage key of the last used CSV options
+ */
+const csvOptionsKey = "exportCSVOptions";
+
+/**
+ * Selectable CSV delimiters
+ */
+const delimiters = [{ label: 'Comma (,)', value: ',' }, { label: 'Semicolon (;)', value: ';' }, { label: 'Tab', value: '\t' }];
+
+/**
+ * Selectable decimal separators
+ */
+const decimalSeparators = [{ label: 'Point (.)', value: '.' }, { label: 'Comma (,)', value: ',' }];
+
+/**
+ * Load the last used CSV options
+ */
+function loadCSVOptions(): CSVOptions {
+    try {
+        const stored = localStorage.getItem(csvOptionsKey);
+        return stored ? { ...defaultCSVOptions, ...JSON.parse(stored) } : defaultCSVOptions;
+    } catch (err) {
+        return defaultCSVOptions;
+    }
+}
+
+interface ExportButtonsProps {
+    /**
+     * Exported rows, may be fetched on demand
+     */
+    data: () => object[] | Promise<object[]>;
+    columns?: ExportColumn[];
+    /**
+     * Name of downloaded file without extension
+     */
+    filename: string;
+    onError?: (message: string) => void;
+}
+
+/**
+ * CSV, XLSX and JSON export buttons of DataTable headers
+ * @returns the ExportButtons ReactComponent
+ */
+const ExportButtons = (props: ExportButtonsProps) => {
+    const { data, columns, filename, onError } = props;
+    const { t } = useTranslation();
+
+    /**
+     * CSV options overlay reference
+     */
+    const optionsPanel = useRef<OverlayPanel>(null);
+
+    /**
+     * The CSV format options
+     */
+    const [csvOptions, setCSVOptions] = useState<CSVOptions>(loadCSVOptions);
+
+    /**
+     * Export is in progress
+     */
+    const [isExporting, setIsExporting] = useState(false);
+
+    /**
+     * Change and remember CSV options
+     * @param options the new CSV options
+     */
+    const changeCSVOptions = (options: CSVOptions) => {
+        setCSVOptions(options);
+        localStorage.setItem(csvOptionsKey, JSON.stringify(options));
+    }
+
+    /**
+     * Export data in the requested format
+     * @param format export format
+     */
+    const exportAs = async (format: ExportFormat) => {
+        setIsExporting(true);
+        try {
+            exportData(await data(), filename, format, columns?.map((column) => ({ ...column, header: t(column.header) })), csvOptions);
+        } catch (err) {
+            if (onError) {
+                onError(errorMessage(err));
+            }
+        } finally {
+            setIsExporting(false);
+        }
+    }
+
+    return (
+        <>
+            <Button type="button" icon="pi pi-file" rounded onClick={() => exportAs("csv")} disabled={isExporting} tooltip="CSV" tooltipOptions={{ position: 'top' }} />
+            <Button type="button" icon="pi pi-cog" rounded outlined onClick={(event) => optionsPanel.current?.toggle(event)} tooltip={t("CSV options")} tooltipOptions={{ position: 'top' }} />
+            <Button type="button" icon="pi pi-file-excel" severity="success" rounded onClick={() => exportAs("xlsx")} disabled={isExporting} tooltip="XLSX" tooltipOptions={{ position: 'top' }} />
+            <Button type="button" icon="pi pi-code" severity="secondary" rounded onClick={() => exportAs("json")} disabled={isExporting} tooltip="JSON" tooltipOptions={{ position: 'top' }} />
+            <OverlayPanel ref={optionsPanel}>
+                <div className="flex flex-column gap-2">
+                    <label htmlFor="csvDelimiter">{t("Delimiter")}</label>
+                    <Dropdown inputId="csvDelimiter" value={csvOptions.delimiter} options={delimiters.map((item) => ({ ...item, label: t(item.label) }))} onChange={(event) => changeCSVOptions({ ...csvOptions, delimiter: event.value })} />
+                    <label htmlFor="csvDecimalSeparator">{t("Decimal separator")}</label>
+                    <Dropdown inputId="csvDecimalSeparator" value={csvOptions.decimalSeparator} options={decimalSeparators.map((item) => ({ ...item, label: t(item.label) }))} onChange={(event) => changeCSVOptions({ ...csvOptions, decimalSeparator: event.value })} />
+                    <div className="flex gap-2">
+                        <Button type="button" label={t("Standard")} size="small" text onClick={() => changeCSVOptions(defaultCSVOptions)} />
+                        <Button type="button" label={t("Hungarian Excel")} size="small" text onClick={() => changeCSVOptions(hungarianCSVOptions)} />
+                    </div>
+                </div>
+            </OverlayPanel>
+        </>
+    )
+}
+
+export default ExportButtons;
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Dialog } from "primereact/dialog";
+import { Steps } from "primereact/steps";
+import { Button } from "primereact/button";
+import { Dropdown } from "primereact/dropdown";
+import { DataTable } from "primereact/datatable";
+import { Column } from "primereact/column";
+import { ProgressBar } from "primereact/progressbar";
+import { Tag } from "primereact/tag";
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import * as z from 'zod';
+import { convertToCSV, downloadCSVFile, parseCSV } from "../utils/Converter";
+import { createChannel, createEnergyMeter, errorMessage, fetchEnergyMeters } from "../utils/ApiClient";
+import { channelFormSchema, energyMeterFormSchema } from "../utils/Schemas";
+import { runBatch } from "../utils/Batch";
+import { useTranslation } from "./LanguageProvider";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * Imported entities
+ */
+export type ImportEntity = "energy_meter" | "channels";
+
+/**
+ * Target field of an imported column
+ */
+interface ImportField {
+    name: string;
+    /**
+     * English label, translated on display
+     */
+    label: string;
+    type: "string" | "number" | "boolean" | "energy_meter";
+}
+
+/**
+ * Target fields of imported entities
+ */
+const importFields: Record<ImportEntity, ImportField[]> = {
+    energy_meter: [
+        { name: "asset_name", label: "Asset name", type: "string" },
+        { name: "ip_address", label: "IP address", type: "string" },
+        { name: "port", label: "Port", type: "number" },
+        { name: "time_zone", label: "Time zone", type: "string" },
+        { name: "enabled", label: "Enabled", type: "boolean" },
+    ],
+    channels: [
+        { name: "energy_meter_id", label: "Energy meter (id, IP address or asset name)", type: "energy_meter" },
+        { name: "channel", label: "Channel", type: "number" },
+        { name: "channel_name", label: "Channel name", type: "string" },
+        { name: "enabled", label: "Enabled", type: "boolean" },
+    ],
+};
+
+/**
+ * Values of unmapped fields, the same as the defaults of the editor dialogs
+ */
+const importDefaults: Record<ImportEntity, Record<string, unknown>> = {
+    energy_meter: { port: 50003, time_zone: dayjs.tz.guess(), enabled: false },
+    channels: { enabled: false },
+};
+
+/**
+ * Validation schemas of imported entities
+ */
+const importSchemas: Record<ImportEntity, z.ZodTypeAny> = {
+    energy_meter: energyMeterFormSchema,
+    channels: channelFormSchema,
+};
+
+/**
+ * Column names recognized for automatic mapping
+ */
+const fieldAliases: Record<string, string[]> = {
+    energy_meter_id: ["energy_meter", "energy_meter_id", "asset_name", "ip_address", "meter"],
+    asset_name: ["asset_name", "asset", "name"],
+    ip_address: ["ip_address", "ip"],
+    channel_name: ["channel_name"],
+};
+
+const trueValues = ["1", "true", "yes", "y", "igen", "i", "x"];
+const falseValues = ["0", "false", "no", "n", "nem", ""];
+
+/**
+ * A parsed row of the imported file
+ */
+interface ImportRow {
+    /**
+     * Line number in the file
+     */
+    line: number;
+    raw: string[];
+    values: Record<string, unknown>;
+    errors: string[];
+}
+
+/**
+ * Normalize a column name for matching
+ * @param name column name
+ */
+function normalize(name: string): string {
+    return name.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Guess the column mapping from the header row
+ * @param fields target fields
+ * @param headers column names of the file
+ * @returns index of column per field name
+ */
+function guessMapping(fields: ImportField[], headers: string[]): Record<string, number | null> {
+    const normalized = headers.map(normalize);
+    const mapping: Record<string, number | null> = {};
+    fields.forEach((field) => {
+        const aliases = fieldAliases[field.name] ?? [field.name];
+        const idx = normalized.findIndex((header) => aliases.includes(header));
+        mapping[field.name] = idx >= 0 ? idx : null;
+    });
+    return mapping;
+}
+
+interface ImportWizardProps {
+    entity: ImportEntity;
+    visible: boolean;
+    onHide: () => void;
+}
+
+/**
+ * CSV import wizard of energy meters and channels
+ * @returns the ImportWizard ReactComponent
+ */
+const ImportWizard = (props: ImportWizardProps) => {
+    const { entity, visible, onHide } = props;
+    const queryClient = useQueryClient();
+    const { t } = useTranslation();
+    const fields = importFields[entity];
+
+    /**
+     * Active step of the wizard
+     */
+    const [step, setStep] = useState(0);
+    /**
+     * Column names of the file
+     */
+    const [headers, setHeaders] = useState<string[]>([]);
+    /**
+     * Data rows of the file
+     */
+    const [lines, setLines] = useState<string[][]>([]);
+    /**
+     * Column index of target fields
+     */
+    const [mapping, setMapping] = useState<Record<string, number | null>>({});
+    /**
+     * Validated rows
+     */
+    const [rows, setRows] = useState<ImportRow[]>([]);
+    /**
+     * Progress of the import
+     */
+    const [progress, setProgress] = useState<{ done: number, total: number } | undefined>(undefined);
+    /**
+     * Rows rejected by validation or by the backend
+     */
+    const [rejected, setRejected] = useState<ImportRow[]>([]);
+    /**
+     * Count of created rows
+     */
+    const [createdCount, setCreatedCount] = useState(0);
+    /**
+     * Error of the file reading
+     */
+    const [fileError, setFileError] = useState<string | undefined>(undefined);
+
+    /**
+     * Reset the wizard and close the dialog
+     */
+    const close = () => {
+        setStep(0);
+        setHeaders([]);
+        setLines([]);
+        setRows([]);
+        setProgress(undefined);
+        setRejected([]);
+        setCreatedCount(0);
+        setFileError(undefined);
+        onHide();
+    }
+
+    /**
+     * Read the selected file
+     * @param file the uploaded CSV file
+     */
+    const readFile = async (file: File) => {
+        try {
+            const parsed = parseCSV(await file.text());
+            if (parsed.length < 2) {
+                throw new Error(t("The file has no data rows"));
+            }
+            setHeaders(parsed[0]);
+            setLines(parsed.slice(1));
+            setMapping(guessMapping(fields, parsed[0]));
+            setFileError(undefined);
+            setStep(1);
+        } catch (err) {
+            setFileError(errorMessage(err));
+        }
+    }
+
+    /**
+     * Convert and validate rows with the column mapping
+     */
+    const validateRows = async () => {
+        let energyMeters: EnergyMeterValues[] = [];
+        try {
+            energyMeters = entity === "channels" ? await fetchEnergyMeters() : [];
+        } catch (err) {
+            setFileError(errorMessage(err));
+            return;
+        }
+        const schema = importSchemas[entity];
+        setRows(lines.map((line, idx) => {
+            const values: Record<string, unknown> = { ...importDefaults[entity] };
+            const errors: string[] = [];
+            fields.forEach((field) => {
+                const column = mapping[field.name];
+                if (column === null || column === undefined) {
+                    return;
+                }
+                const text = (line[column] ?? '').trim();
+                switch (field.type) {
+                    case "number":
+                        values[field.name] = text === '' ? undefined : isNaN(Number(text.replace(",", "."))) ? text : Number(text.replace(",", "."));
+                        break;
+                    case "boolean":
+                        values[field.name] = trueValues.includes(text.toLowerCase()) ? true : falseValues.includes(text.toLowerCase()) ? false : text;
+                        break;
+                    case "energy_meter": {
+                        const energyMeter = energyMeters.find((item) => String(item.id) === text || item.ip_address === text || item.asset_name.toLowerCase() === text.toLowerCase());
+                        if (energyMeter) {
+                            values[field.name] = energyMeter.id;
+                        } else {
+                            errors.push(t("{field}: unknown energy meter \"{text}\"", { field: t(field.label), text }));
+                        }
+                        break;
+                    }
+                    default:
+                        values[field.name] = text;
+                }
+            });
+            const result = schema.safeParse(values);
+            if (!result.success) {
+                result.error.issues.forEach((issue) => {
+                    const field = fields.find((item) => item.name === issue.path[0]);
+                    if (!(field && field.type === "energy_meter" && errors.length > 0)) {
+                        errors.push(`${field ? t(field.label) : issue.path.join(".")}: ${issue.message}`);
+                    }
+                });
+            }
+            return { line: idx + 2, raw: line, values: result.success ? result.data : values, errors };
+        }));
+        setFileError(undefined);
+        setStep(2);
+    }
+
+    /**
+     * Create the valid rows
+     */
+    const importRows = async () => {
+        setStep(3);
+        const valid = rows.filter((row) => row.errors.length === 0);
+        setProgress({ done: 0, total: valid.length });
+        const create = (row: ImportRow) => entity === "energy_meter"
+            ? createEnergyMeter(row.values as Omit<EnergyMeterValues, "id">)
+            : createChannel(row.values as Omit<ChannelValues, "id">);
+        const results = await runBatch(valid, create, (done, total) => setProgress({ done, total }));
+        const failed = results.filter((result) => result.error !== undefined).map((result) => ({ ...result.item, errors: [result.error as string] }));
+        setRejected([...rows.filter((row) => row.errors.length > 0), ...failed].sort((a, b) => a.line - b.line));
+        setCreatedCount(valid.length - failed.length);
+        queryClient.invalidateQueries({ queryKey: [entity] });
+        queryClient.invalidateQueries({ queryKey: [entity + "count"] });
+    }
+
+    /**
+     * Download the rejected rows with their errors
+     */
+    const downloadRejected = () => {
+        const columns = [{ field: "line", header: t("Line") }, ...headers.map((header, idx) => ({ field: `column${idx}`, header })), { field: "errors", header: t("Errors") }];
+        const data = rejected.map((row) => {
+            const result: Record<string, unknown> = { line: row.line, errors: row.errors.join("; ") };
+            row.raw.forEach((value, idx) => {
+                result[`column${idx}`] = value;
+            });
+            return result;
+        });
+        downloadCSVFile(convertToCSV(data, columns), `${entity}_rejected.csv`);
+    }
+
+    /**
+     * Validation status column template
+     * @param row the validated row
+     */
+    const statusBodyTemplate = (row: ImportRow) => {
+        return row.errors.length === 0 ? <Tag value={t("OK")} severity="success" /> : <Tag value={t("Error")} severity="danger" />;
+    }
+
+    const validCount = rows.filter((row) => row.errors.length === 0).length;
+    const importing = progress !== undefined && progress.done < progress.total;
+
+    const footer = (
+        <div>
+            {step === 1 && <Button label={t("Back")} icon="pi pi-arrow-left" text onClick={() => setStep(0)} />}
+            {step === 1 && <Button label={t("Validate")} icon="pi pi-arrow-right" onClick={validateRows} />}
+            {step === 2 && <Button label={t("Back")} icon="pi pi-arrow-left" text onClick={() => setStep(1)} />}
+            {step === 2 && <Button label={t("Import {count} rows", { count: validCount })} icon="pi pi-upload" disabled={validCount === 0} onClick={importRows} />}
+            {step === 3 && rejected.length > 0 && !importing && <Button label={t("Download rejected rows")} icon="pi pi-download" outlined onClick={downloadRejected} />}
+            {step === 3 && <Button label={t("Close")} icon="pi pi-check" disabled={importing} onClick={close} />}
+        </div>
+    );
+
+    return (
+        <Dialog header={t(entity === "energy_meter" ? "Import energy meters" : "Import channels")} visible={visible} onHide={close} style={{ width: '70vw' }} footer={footer}>
+            <Steps model={[{ label: t('Upload') }, { label: t('Map columns') }, { label: t('Preview') }, { label: t('Import') }]} activeIndex={step} className="mb-4" />
+            {step === 0 && <div className="flex flex-column gap-2">
+                <label htmlFor="importFile">{t("CSV file with header row")}</label>
+                <input id="importFile" type="file" accept=".csv,text/csv" onChange={(event) => event.target.files && event.target.files.length > 0 && readFile(event.target.files[0])} />
+                {fileError && <span className="text-red-500">{fileError}</span>}
+            </div>}
+            {step === 1 && fields.map((field) => (
+                <div key={field.name} className="grid align-items-baseline">
+                    <div className="col-12 mb-2 md:col-4 md:mb-0">
+                        <label htmlFor={`mapping_${field.name}`}>{t(field.label)}: </label>
+                    </div>
+                    <div className="col-12 md:col-8">
+                        <Dropdown inputId={`mapping_${field.name}`} value={mapping[field.name]} options={headers.map((header, idx) => ({ label: header, value: idx }))}
+                            onChange={(event) => setMapping({ ...mapping, [field.name]: event.value ?? null })} showClear
+                            placeholder={importDefaults[entity][field.name] !== undefined ? t("Default: {value}", { value: String(importDefaults[entity][field.name]) }) : t("Select column")} style={{ width: '100%' }} />
+                    </div>
+                </div>
+            ))}
+            {step === 1 && fileError && <span className="text-red-500">{fileError}</span>}
+            {step === 2 && <>
+                <p>{t("{count} of {total} rows are valid, rows with errors will be skipped.", { count: validCount, total: rows.length })}</p>
+                <DataTable value={rows} dataKey="line" paginator rows={10} size="small" rowClassName={(row: ImportRow) => ({ 'bg-red-50': row.errors.length > 0 })}>
+                    <Column field="line" header={t("Line")}></Column>
+                    <Column header={t("Status")} body={statusBodyTemplate}></Column>
+                    {fields.map((field) => <Column key={field.name} header={t(field.label)} body={(row: ImportRow) => String(row.values[field.name] ?? '')}></Column>)}
+                    <Column header={t("Errors")} body={(row: ImportRow) => row.errors.join("; ")}></Column>
+                </DataTable>
+            </>}
+            {step === 3 && progress && <div className="flex flex-column gap-2">
+                <ProgressBar value={Math.round(progress.done * 100 / Math.max(progress.total, 1))} />
+                {!importing && <span>{t("Created {count} of {total} rows, rejected {rejected}.", { count: createdCount, total: rows.length, rejected: rejected.length })}</span>}
+            </div>}
+        </Dialog>
+    )
+}
+
+export default ImportWizard;
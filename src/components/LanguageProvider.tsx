@@ -0,0 +1,80 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import { applyLanguage, dateFormat, dateTimeFormat, formatNumber, Language, storedLanguage, storeLanguage, translate, Translate } from "../utils/I18n";
+
+/**
+ * The language context
+ */
+interface LanguageContextValue {
+    language: Language;
+    setLanguage: (language: Language) => void;
+    /**
+     * Translate an English text of the UI into the selected language
+     */
+    t: Translate;
+    /**
+     * Format a number by the conventions of the selected language
+     */
+    formatNumber: (value: number, maximumFractionDigits?: number) => string;
+    /**
+     * Dayjs format of displayed dates
+     */
+    dateFormat: string;
+    /**
+     * Dayjs format of displayed date and time values
+     */
+    dateTimeFormat: string;
+}
+
+const LanguageContext = createContext<LanguageContextValue | null>(null);
+
+/**
+ * The language context of components
+ * @returns the language context
+ */
+export function useTranslation(): LanguageContextValue {
+    const context = useContext(LanguageContext);
+    if (context === null) {
+        throw new Error("useTranslation must be used inside LanguageProvider");
+    }
+    return context;
+}
+
+interface LanguageProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Provider of the selected language
+ * @returns the LanguageProvider ReactComponent
+ */
+const LanguageProvider = (props: LanguageProviderProps) => {
+    const [language, setLanguageState] = useState<Language>(() => {
+        const initial = storedLanguage();
+        applyLanguage(initial);
+        return initial;
+    });
+
+    /**
+     * Keep PrimeReact and zod in the selected language
+     */
+    useEffect(() => {
+        applyLanguage(language);
+    }, [language]);
+
+    const setLanguage = useCallback((selected: Language) => {
+        storeLanguage(selected);
+        setLanguageState(selected);
+    }, []);
+
+    const t = useCallback<Translate>((text, params) => translate(language, text, params), [language]);
+
+    const format = useCallback((value: number, maximumFractionDigits?: number) => formatNumber(language, value, maximumFractionDigits), [language]);
+
+    return (
+        <LanguageContext.Provider value={{ language, setLanguage, t, formatNumber: format, dateFormat: dateFormat(language), dateTimeFormat: dateTimeFormat(language) }}>
+            {props.children}
+        </LanguageContext.Provider>
+    )
+}
+
+export default LanguageProvider;
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Controller, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from 'zod';
+import { InputText } from "primereact/inputtext";
+import { Password } from "primereact/password";
+import { Button } from "primereact/button";
+import { classNames } from "primereact/utils";
+import { errorMessage } from "../utils/ApiClient";
+import { useAuth } from "./AuthProvider";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * The input form objects
+ */
+interface LoginValues {
+    username: string;
+    password: string;
+}
+
+/**
+ * The Zod validation schema of form data
+ */
+const schema = z.object({
+    username: z.string().nonempty(),
+    password: z.string().nonempty(),
+});
+
+interface LoginFormProps {
+    defaultUsername?: string;
+    /**
+     * Called after successful login
+     */
+    onLogin?: (user: User) => void;
+}
+
+/**
+ * Login form
+ * @returns the LoginForm ReactComponent
+ */
+const LoginForm = (props: LoginFormProps) => {
+    const { login } = useAuth();
+    const { t } = useTranslation();
+
+    /**
+     * Error message of the failed login
+     */
+    const [loginError, setLoginError] = useState<string | undefined>(undefined);
+
+    /**
+     * React hook form
+     */
+    const { control, handleSubmit, formState: { errors, isSubmitting } } = useForm<LoginValues>({ resolver: zodResolver(schema), defaultValues: { username: props.defaultUsername ?? '', password: '' } });
+
+    /**
+     * React hook form submit callback
+     * @param data submited data values
+     */
+    const onSubmit = async (data: LoginValues) => {
+        try {
+            const user = await login(data.username, data.password);
+            setLoginError(undefined);
+            if (props.onLogin) {
+                props.onLogin(user);
+            }
+        } catch (err) {
+            setLoginError(errorMessage(err));
+        }
+    }
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-column gap-3">
+            <Controller
+                name="username"
+                control={control}
+                render={({ field, fieldState }) => (
+                    <span className="flex flex-column gap-1">
+                        <label htmlFor={field.name}>{t("User name")}</label>
+                        <InputText id={field.name} value={field.value} autoComplete="username" tooltip={errors.username?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} />
+                    </span>
+                )}
+            />
+            <Controller
+                name="password"
+                control={control}
+                render={({ field, fieldState }) => (
+                    <span className="flex flex-column gap-1">
+                        <label htmlFor={field.name}>{t("Password")}</label>
+                        <Password inputId={field.name} value={field.value} feedback={false} autoComplete="current-password" tooltip={errors.password?.message} className={classNames({ 'p-invalid': fieldState.invalid })} inputStyle={{ width: '100%' }} onChange={field.onChange} />
+                    </span>
+                )}
+            />
+            {loginError && <span className="text-red-500">{loginError}</span>}
+            <Button label={t("Log in")} icon="pi pi-sign-in" type="submit" loading={isSubmitting} />
+        </form>
+    )
+}
+
+export default LoginForm;
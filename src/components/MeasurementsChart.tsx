@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { Chart } from "primereact/chart";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Colors of chart series
+ */
+const palette = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#06b6d4', '#8b5cf6', '#84cc16', '#ec4899', '#64748b', '#f97316', '#14b8a6', '#a855f7'];
+
+interface MeasurementsChartProps {
+    /**
+     * The report rows with their times in the display time zone
+     */
+    measurements: ReportRow[];
+}
+
+/**
+ * Consumption charts of the measurements report: diff per interval and cumulative measured value, one series per asset and channel
+ * @returns the MeasurementsChart ReactComponent
+ */
+const MeasurementsChart = (props: MeasurementsChartProps) => {
+    const { measurements } = props;
+    const { t } = useTranslation();
+
+    /**
+     * Chart data of both charts
+     */
+    const chartData = useMemo(() => {
+        const sorted = [...measurements].sort((a, b) => a.recorded_time - b.recorded_time);
+        const labels: string[] = [];
+        const labelIndex = new Map<string, number>();
+        const series = new Map<string, Map<string, ReportRow>>();
+        sorted.forEach((element) => {
+            const label = element.from_time ?? element.from_local_time ?? "";
+            if (!labelIndex.has(label)) {
+                labelIndex.set(label, labels.length);
+                labels.push(label);
+            }
+            const seriesLabel = `${element.asset_name} / ${element.channel_name}`;
+            if (!series.has(seriesLabel)) {
+                series.set(seriesLabel, new Map());
+            }
+            series.get(seriesLabel)?.set(label, element);
+        });
+
+        const seriesLabels = Array.from(series.keys());
+        const dataset = (seriesLabel: string, idx: number, value: (element: ReportRow) => number | null | undefined) => {
+            const values = series.get(seriesLabel);
+            return {
+                label: seriesLabel,
+                data: labels.map((label) => {
+                    const element = values?.get(label);
+                    return element ? value(element) ?? null : null;
+                }),
+                backgroundColor: palette[idx % palette.length],
+                borderColor: palette[idx % palette.length],
+            };
+        };
+
+        return {
+            diff: {
+                labels: labels,
+                datasets: seriesLabels.map((seriesLabel, idx) => dataset(seriesLabel, idx, (element) => element.diff)),
+            },
+            measured: {
+                labels: labels,
+                datasets: seriesLabels.map((seriesLabel, idx) => ({ ...dataset(seriesLabel, idx, (element) => element.measured_value), fill: false, tension: 0.2, spanGaps: true })),
+            },
+        };
+    }, [measurements]);
+
+    /**
+     * Chart options
+     * @param title title of chart
+     */
+    const options = (title: string) => ({
+        maintainAspectRatio: false,
+        plugins: {
+            title: { display: true, text: title },
+            legend: { position: 'bottom' },
+        },
+    });
+
+    return (
+        <div className="grid">
+            <div className="col-12 xl:col-6">
+                <Chart type="bar" data={chartData.diff} options={options(t("Consumption per interval"))} style={{ height: '400px' }} />
+            </div>
+            <div className="col-12 xl:col-6">
+                <Chart type="line" data={chartData.measured} options={options(t("Measured value"))} style={{ height: '400px' }} />
+            </div>
+        </div>
+    )
+}
+
+export default MeasurementsChart;
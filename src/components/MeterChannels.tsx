@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { DataTable, DataTableRowEditCompleteEvent } from "primereact/datatable";
+import { Column, ColumnEditorOptions } from "primereact/column";
+import { InputNumber } from "primereact/inputnumber";
+import { InputText } from "primereact/inputtext";
+import { InputSwitch } from "primereact/inputswitch";
+import { Button } from "primereact/button";
+import { Link } from "react-router-dom";
+import { createChannel, errorMessage, updateChannel } from "../utils/ApiClient";
+import { channelsOfEnergyMetersQuery } from "../utils/Queries";
+import { channelFormSchema } from "../utils/Schemas";
+import { useAuth } from "./AuthProvider";
+import { useTranslation } from "./LanguageProvider";
+
+interface MeterChannelsProps {
+    energyMeter: EnergyMeterValues;
+    /**
+     * Show message of the parent page
+     */
+    show: (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => void;
+}
+
+/**
+ * Channels of an energy meter, editable inline in the expanded row of the energy meter table
+ * @returns the MeterChannels ReactComponent
+ */
+const MeterChannels = (props: MeterChannelsProps) => {
+    const { energyMeter, show } = props;
+    const queryClient = useQueryClient();
+    const { can } = useAuth();
+    const { t } = useTranslation();
+
+    /**
+     * Number of the added channel
+     */
+    const [newChannel, setNewChannel] = useState<number | null>(null);
+    /**
+     * Name of the added channel
+     */
+    const [newChannelName, setNewChannelName] = useState('');
+
+    /**
+     * Channels of the energy meter query
+     */
+    const { data: channels, isLoading } = useQuery({
+        ...channelsOfEnergyMetersQuery([energyMeter.id]),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Reload the channels everywhere
+     */
+    const updateChannels = () => {
+        queryClient.invalidateQueries({ queryKey: ["channels"] });
+        queryClient.invalidateQueries({ queryKey: ["channelscount"] });
+    }
+
+    /**
+     * Validate and save a channel
+     * @param id id of channel
+     * @param values the channel values
+     */
+    const saveChannel = (id: number, values: Omit<ChannelValues, "id">) => {
+        const result = channelFormSchema.safeParse(values);
+        if (!result.success) {
+            show("error", result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", "));
+            return;
+        }
+        updateChannel(id, result.data).then(() => {
+            updateChannels();
+            show("success", t("Updated channel: {name}", { name: values.channel_name }));
+        }).catch((err) => show("error", errorMessage(err)));
+    }
+
+    /**
+     * Row edit complete event
+     * @param event the row edit event
+     */
+    const onRowEditComplete = (event: DataTableRowEditCompleteEvent) => {
+        const { id, energy_meter_id, channel, channel_name, enabled } = event.newData as ChannelValues;
+        saveChannel(id, { energy_meter_id, channel, channel_name, enabled });
+    }
+
+    /**
+     * Add a channel to the energy meter
+     */
+    const addChannel = () => {
+        const values = {
+            energy_meter_id: energyMeter.id,
+            channel: newChannel ?? 0,
+            channel_name: newChannelName,
+            enabled: false,
+        };
+        const result = channelFormSchema.safeParse(values);
+        if (!result.success) {
+            show("error", result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", "));
+            return;
+        }
+        createChannel(result.data).then(() => {
+            updateChannels();
+            setNewChannel(null);
+            setNewChannelName('');
+            show("success", t("Saved channel: {name}", { name: values.channel_name }));
+        }).catch((err) => show("error", errorMessage(err)));
+    }
+
+    /**
+     * Enabled column template
+     * @param row the channel
+     */
+    const enabledBodyTemplate = (row: ChannelValues) => {
+        return <InputSwitch checked={row.enabled} disabled={!can("channel:toggle")} onChange={(event) => saveChannel(row.id, {
+            energy_meter_id: row.energy_meter_id,
+            channel: row.channel,
+            channel_name: row.channel_name,
+            enabled: event.value ? true : false,
+        })} />;
+    }
+
+    const footer = can("config:edit") && (
+        <div className="flex align-items-center gap-2">
+            <InputNumber value={newChannel} onValueChange={(event) => setNewChannel(event.value ?? null)} placeholder={t("Channel")} min={1} size={6} />
+            <InputText value={newChannelName} onChange={(event) => setNewChannelName(event.target.value)} placeholder={t("Channel name")} />
+            <Button type="button" label={t("Add channel")} icon="pi pi-plus" onClick={addChannel} />
+        </div>
+    );
+
+    return (
+        <div className="p-3">
+            <div className="flex align-items-baseline justify-content-between">
+                <h4 className="mt-0">{t("Channels of {name}", { name: energyMeter.asset_name })}</h4>
+                <Link to={`/channels?energy_meter_id=${energyMeter.id}`}>{t("Open in channels")}</Link>
+            </div>
+            <DataTable value={channels ?? []} dataKey="id" loading={isLoading} editMode="row" onRowEditComplete={onRowEditComplete} footer={footer} size="small">
+                <Column field="channel" header={t("Channel")} sortable
+                    editor={(options: ColumnEditorOptions) => <InputNumber value={options.value} onValueChange={(event) => options.editorCallback && options.editorCallback(event.value)} min={1} size={6} />}></Column>
+                <Column field="channel_name" header={t("Channel name")} sortable
+                    editor={(options: ColumnEditorOptions) => <InputText value={options.value} onChange={(event) => options.editorCallback && options.editorCallback(event.target.value)} />}></Column>
+                <Column field="enabled" header={t("Enabled")} body={enabledBodyTemplate}></Column>
+                {can("config:edit") && <Column rowEditor headerStyle={{ width: '8rem' }}></Column>}
+            </DataTable>
+        </div>
+    )
+}
+
+export default MeterChannels;
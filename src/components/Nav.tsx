@@ -1,31 +1,119 @@
 import { Menubar } from 'primereact/menubar';
+import { MenuItem } from 'primereact/menuitem';
+import { BreadCrumb } from 'primereact/breadcrumb';
+import { matchPath, useLocation, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './AuthProvider';
+import { Permission } from '../utils/Permissions';
+import { Dropdown } from 'primereact/dropdown';
+import { useTranslation } from './LanguageProvider';
+import { languages } from '../utils/I18n';
+import { energyMeterQuery } from '../utils/Queries';
+
+/**
+ * A page of the menu
+ */
+interface Page {
+    path: string;
+    /**
+     * English label, translated on display
+     */
+    label: string;
+    icon: string;
+    permission: Permission;
+}
+
+/**
+ * Pages of the menu in menu order
+ */
+const pages: Page[] = [
+    { path: '/', label: 'Home', icon: 'pi pi-fw pi-home', permission: 'report:run' },
+    { path: '/presets', label: 'Report presets', icon: 'pi pi-fw pi-bookmark', permission: 'report:run' },
+    { path: '/dashboard', label: 'Dashboard', icon: 'pi pi-fw pi-chart-line', permission: 'config:view' },
+    { path: '/energy_meter', label: 'Energy meter', icon: 'pi pi-fw pi-calendar', permission: 'config:view' },
+    { path: '/channels', label: 'Channels', icon: 'pi pi-fw pi-calendar', permission: 'config:view' },
+    { path: '/tariffs', label: 'Tariffs', icon: 'pi pi-fw pi-money-bill', permission: 'config:view' },
+    { path: '/audit', label: 'Audit log', icon: 'pi pi-fw pi-history', permission: 'audit:view' },
+];
+
+/**
+ * The page of the menu showing a path, the page itself or its parent
+ * @param pathname path of the location
+ */
+function activePage(pathname: string): Page | undefined {
+    return pages.find((page) => page.path === '/' ? pathname === '/' : matchPath({ path: page.path, end: false }, pathname) !== null);
+}
+
+/**
+ * Breadcrumb of the energy meter opened by its URL
+ * @param pathname path of the location
+ * @returns the breadcrumb, empty on other paths
+ */
+const useEnergyMeterCrumb = (pathname: string): MenuItem[] => {
+    const match = matchPath('/energy_meter/:id', pathname);
+    const id = Number(match?.params.id);
+    const { data: energyMeter } = useQuery({
+        ...energyMeterQuery(id),
+        enabled: match !== null && Number.isInteger(id),
+    });
+    if (match === null) {
+        return [];
+    }
+    return [{ label: energyMeter?.asset_name ?? `#${match.params.id}` }];
+}
 
 const Navigation = () => {
-    const navlist = [
-        {
-            label: 'Home', icon: 'pi pi-fw pi-home', command: () => {
-                window.location.href = '/';
-            }
-        },
-        {
-            label: 'Energy meter', icon: 'pi pi-fw pi-calendar', command: () => {
-                window.location.href = '/energy_meter'
-            }
-        },
+    const { user, can, logout } = useAuth();
+    const { language, setLanguage, t } = useTranslation();
+    const navigate = useNavigate();
+    const location = useLocation();
+    const active = activePage(location.pathname);
+    const entityCrumbs = useEnergyMeterCrumb(location.pathname);
+
+    /**
+     * Menu item of a page, opened without reloading the app
+     * @param page the page
+     * @param highlight mark the item of the active page
+     */
+    const pageItem = (page: Page, highlight: boolean): MenuItem => ({
+        label: t(page.label), icon: page.icon, url: page.path,
+        className: highlight && page === active ? 'surface-200 border-round font-bold' : undefined,
+        command: (event) => {
+            event.originalEvent.preventDefault();
+            navigate(page.path);
+        }
+    });
+
+    const navlist = pages.filter((page) => can(page.permission)).map((page) => pageItem(page, true));
+
+    const userMenu = !user ? [] : [
         {
-            label: 'Channels', icon: 'pi pi-fw pi-calendar', command: () => {
-                window.location.href = '/channels'
-            }
+            label: `${user.username} (${t(user.role)})`, icon: 'pi pi-fw pi-user', items: [
+                {
+                    label: t('Logout'), icon: 'pi pi-fw pi-sign-out', command: () => {
+                        logout().finally(() => {
+                            navigate('/login');
+                        });
+                    }
+                },
+            ]
         },
     ];
 
+    /**
+     * Breadcrumbs below the home page: the active page and the opened record
+     */
+    const crumbs = active && active.path !== '/' ? [pageItem(active, false), ...entityCrumbs] : [];
+
     return (
         <div>
             <header>
                 <nav>
                     <Menubar
-                        model={navlist}
+                        model={[...navlist, ...userMenu]}
+                        end={<Dropdown value={language} options={languages} onChange={(event) => setLanguage(event.value)} aria-label={t('Language')} />}
                     />
+                    {user && crumbs.length > 0 && <BreadCrumb home={{ ...pageItem(pages[0], false), label: undefined }} model={crumbs} className="border-none" />}
                 </nav>
             </header>
         </div>
@@ -0,0 +1,219 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Controller, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Dialog } from "primereact/dialog";
+import { InputText } from "primereact/inputtext";
+import { Dropdown } from "primereact/dropdown";
+import { Checkbox } from "primereact/checkbox";
+import { SelectButton } from "primereact/selectbutton";
+import { Chips } from "primereact/chips";
+import { Button } from "primereact/button";
+import { classNames } from "primereact/utils";
+import dayjs from "dayjs";
+import { createReportPreset, errorMessage, updateReportPreset } from "../utils/ApiClient";
+import { matchingRange, RelativeRange, relativeRanges } from "../utils/Presets";
+import { reportPresetFormSchema } from "../utils/Schemas";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Recurrences of scheduled runs
+ */
+const frequencies = [{ label: 'Daily', value: 'daily' }, { label: 'Weekly', value: 'weekly' }, { label: 'Monthly', value: 'monthly' }];
+
+/**
+ * Formats of delivered files
+ */
+const formats = [{ label: 'CSV', value: 'csv' }, { label: 'XLSX', value: 'xlsx' }, { label: 'JSON', value: 'json' }];
+
+/**
+ * The input form objects
+ */
+interface PresetFormValues {
+    name: string;
+    date_range: RelativeRange;
+    scheduled: boolean;
+    frequency: ReportSchedule["frequency"];
+    format: ReportSchedule["format"];
+    recipients: string[];
+}
+
+interface PresetDialogProps {
+    visible: boolean;
+    onHide: () => void;
+    /**
+     * The edited preset, a new one is created from report when missing
+     */
+    preset?: ReportPreset;
+    /**
+     * Report form values of a new preset
+     */
+    report?: FormValues;
+    onSaved: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+/**
+ * Name, relative date range and schedule of a report preset
+ * @returns the PresetDialog ReactComponent
+ */
+const PresetDialog = (props: PresetDialogProps) => {
+    const { visible, onHide, preset, report, onSaved, onError } = props;
+    const queryClient = useQueryClient();
+    const { t, dateFormat } = useTranslation();
+
+    /**
+     * React hook form
+     */
+    const { control, handleSubmit, reset, formState: { errors } } = useForm<PresetFormValues>({ resolver: zodResolver(reportPresetFormSchema) });
+
+    /**
+     * Schedule is enabled
+     */
+    const scheduled = useWatch({ control, name: "scheduled" });
+
+    /**
+     * The report period of a new preset matches no relative date range, the user has to choose one
+     */
+    const unmatchedPeriod = !preset && report !== undefined && matchingRange(report.fromDate, report.toDate) === undefined;
+
+    /**
+     * Fill the form on open
+     */
+    useEffect(() => {
+        if (!visible) {
+            return;
+        }
+        reset({
+            name: preset?.name ?? '',
+            date_range: preset?.date_range ?? (report && matchingRange(report.fromDate, report.toDate)),
+            scheduled: preset?.schedule ? true : false,
+            frequency: preset?.schedule?.frequency ?? "weekly",
+            format: preset?.schedule?.format ?? "xlsx",
+            recipients: preset?.schedule?.recipients ?? [],
+        });
+    }, [visible, preset, report, reset]);
+
+    /**
+     * Save the preset
+     * @param data submited data values
+     */
+    const onSubmit = (data: PresetFormValues) => {
+        const values = {
+            name: data.name,
+            date_range: data.date_range,
+            schedule: data.scheduled ? { frequency: data.frequency, format: data.format, recipients: data.recipients } : null,
+        };
+        const saved = preset
+            ? updateReportPreset(preset.id, values)
+            : createReportPreset({ ...values, ip_addresses: report?.ipAddresses ?? [], channels: report?.channels ?? [], details: report?.details ?? '', gap_fill: report?.gapFill ?? "none" });
+        saved.then(() => {
+            queryClient.invalidateQueries({ queryKey: ["report_presets"] });
+            queryClient.invalidateQueries({ queryKey: ["report_presetscount"] });
+            onSaved(t("Saved report preset: {name}", { name: data.name }));
+            onHide();
+        }).catch((err) => onError(errorMessage(err)));
+    }
+
+    return (
+        <Dialog header={t("Report preset")} visible={visible} onHide={onHide} style={{ width: '40vw' }}>
+            <form onSubmit={handleSubmit(onSubmit, () => onError(t("Please fill form as needed. Read tooltips on red marked fields.")))} style={{ width: '100%' }}>
+                <Controller
+                    name="name"
+                    control={control}
+                    render={({ field, fieldState }) => (
+                        <div className="grid align-items-baseline">
+                            <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                <label htmlFor={field.name}>{t("Name:")} </label>
+                            </div>
+                            <div className="col-12 md:col-9">
+                                <InputText id={field.name} value={field.value || ''} tooltip={errors.name?.message && t(errors.name.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
+                            </div>
+                        </div>
+                    )}
+                />
+                <Controller
+                    name="date_range"
+                    control={control}
+                    render={({ field, fieldState }) => (
+                        <div className="grid align-items-baseline">
+                            <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                <label htmlFor={field.name}>{t("Period:")} </label>
+                            </div>
+                            <div className="col-12 md:col-9">
+                                <Dropdown id={field.name} value={field.value} tooltip={errors.date_range?.message && t(errors.date_range.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.value)} options={relativeRanges.map((item) => ({ ...item, label: t(item.label) }))} placeholder={t("Select period")} style={{ width: '100%' }} />
+                                {unmatchedPeriod && report && <small className="text-orange-600">
+                                    {t("The report period {from} - {to} matches no relative period, choose the period of the preset", { from: dayjs(report.fromDate).format(dateFormat), to: dayjs(report.toDate).format(dateFormat) })}
+                                </small>}
+                            </div>
+                        </div>
+                    )}
+                />
+                <Controller
+                    name="scheduled"
+                    control={control}
+                    render={({ field }) => (
+                        <div className="grid align-items-baseline">
+                            <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                <label htmlFor={field.name}>{t("Scheduled:")} </label>
+                            </div>
+                            <div className="col-12 md:col-9">
+                                <Checkbox inputId={field.name} checked={field.value} onChange={(event) => field.onChange(event.checked ? true : false)} />
+                            </div>
+                        </div>
+                    )}
+                />
+                {scheduled && <>
+                    <Controller
+                        name="frequency"
+                        control={control}
+                        render={({ field }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                    <label htmlFor={field.name}>{t("Every:")} </label>
+                                </div>
+                                <div className="col-12 md:col-9">
+                                    <SelectButton id={field.name} value={field.value} onChange={(event) => event.value && field.onChange(event.value)} options={frequencies.map((item) => ({ ...item, label: t(item.label) }))} optionLabel="label" optionValue="value" />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    <Controller
+                        name="format"
+                        control={control}
+                        render={({ field }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                    <label htmlFor={field.name}>{t("File format:")} </label>
+                                </div>
+                                <div className="col-12 md:col-9">
+                                    <SelectButton id={field.name} value={field.value} onChange={(event) => event.value && field.onChange(event.value)} options={formats} optionLabel="label" optionValue="value" />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    <Controller
+                        name="recipients"
+                        control={control}
+                        render={({ field, fieldState }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-3 md:mb-0">
+                                    <label htmlFor={field.name}>{t("Recipients:")} </label>
+                                </div>
+                                <div className="col-12 md:col-9">
+                                    <Chips id={field.name} value={field.value} onChange={(event) => field.onChange(event.value ?? [])} separator="," placeholder={t("E-mail addresses")}
+                                        tooltip={errors.recipients?.message ? t(errors.recipients.message) : Array.isArray(errors.recipients) ? t("Invalid e-mail address") : undefined} className={classNames({ 'p-invalid': fieldState.invalid })} style={{ width: '100%' }} />
+                                </div>
+                            </div>
+                        )}
+                    />
+                </>}
+                <div className='flex justify-content-end'>
+                    <Button label={t("Save")} type="submit" icon="pi pi-check" />
+                </div>
+            </form>
+        </Dialog>
+    );
+}
+
+export default PresetDialog;
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DataTable, DataTableStateEvent } from "primereact/datatable";
+import { Column } from "primereact/column";
+import { Tag } from "primereact/tag";
+import dayjs from "dayjs";
+import { countReportRuns, errorMessage, fetchReportRuns } from "../utils/ApiClient";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Severities of run statuses
+ */
+const statusSeverity: Record<ReportRun["status"], "info" | "success" | "danger"> = {
+    running: "info",
+    success: "success",
+    failed: "danger",
+};
+
+/**
+ * Display names of run statuses
+ */
+const statusLabels: Record<ReportRun["status"], string> = {
+    running: "Running",
+    success: "Success",
+    failed: "Failed",
+};
+
+/**
+ * Display names of run triggers
+ */
+const triggerLabels: Record<ReportRun["trigger"], string> = {
+    manual: "Manual",
+    schedule: "Schedule",
+};
+
+interface RunHistoryProps {
+    preset: ReportPreset;
+    /**
+     * Show message of the parent page
+     */
+    show: (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => void;
+}
+
+/**
+ * Runs of a report preset, shown in the expanded row of the presets table
+ * @returns the RunHistory ReactComponent
+ */
+const RunHistory = (props: RunHistoryProps) => {
+    const { preset, show } = props;
+    const { t, dateTimeFormat } = useTranslation();
+
+    /**
+     * Lazy data model state
+     */
+    const [lazyState, setLazyState] = useState<DataTableStateEvent>({
+        first: 0,
+        rows: 5,
+        page: 0,
+        pageCount: 0,
+        sortField: "",
+        sortOrder: 1,
+        multiSortMeta: [],
+        filters: {},
+    });
+
+    /**
+     * Runs query, polled while a run is in progress
+     */
+    const { data: runs, isLoading: isDataLoading } = useQuery({
+        queryKey: ["report_runs", preset.id, lazyState.first, lazyState.rows],
+        queryFn: () => fetchReportRuns(preset.id, { first: lazyState.first, rows: lazyState.rows }),
+        refetchInterval: (data) => (data ?? []).some((run) => run.status === "running") ? 5000 : false,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Runs count query
+     */
+    const { data: count, isLoading: isCountLoading } = useQuery<number>({
+        queryKey: ["report_runscount", preset.id],
+        queryFn: () => countReportRuns(preset.id),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Result column template
+     * @param row the run
+     */
+    const resultBodyTemplate = (row: ReportRun) => {
+        if (row.file_url) {
+            return <a href={row.file_url} target="_blank" rel="noreferrer"><i className="pi pi-download mr-1"></i>{t("Download")}</a>;
+        }
+        return <span className="text-red-500">{row.error ?? ''}</span>;
+    }
+
+    /**
+     * Time column template
+     * @param value ISO time
+     */
+    const timeText = (value?: string) => value ? dayjs(value).format(`${dateTimeFormat}:ss`) : '';
+
+    return (
+        <div className="p-3">
+            <h4 className="mt-0">{t("Run history of {name}", { name: preset.name })}</h4>
+            <DataTable value={runs ?? []}
+                dataKey="id"
+                first={lazyState.first}
+                paginator={true}
+                lazy={true}
+                rows={lazyState.rows}
+                totalRecords={count ?? 0}
+                onPage={(event) => setLazyState(event)}
+                loading={isDataLoading || isCountLoading}
+                emptyMessage={t("Not run yet")}
+                size="small"
+            >
+                <Column field="started_at" header={t("Started")} body={(row: ReportRun) => timeText(row.started_at)}></Column>
+                <Column field="finished_at" header={t("Finished")} body={(row: ReportRun) => timeText(row.finished_at)}></Column>
+                <Column field="trigger" header={t("Trigger")} body={(row: ReportRun) => t(triggerLabels[row.trigger])}></Column>
+                <Column field="status" header={t("Status")} body={(row: ReportRun) => <Tag value={t(statusLabels[row.status])} severity={statusSeverity[row.status]} />}></Column>
+                <Column header={t("Result")} body={resultBodyTemplate}></Column>
+            </DataTable>
+        </div>
+    );
+}
+
+export default RunHistory;
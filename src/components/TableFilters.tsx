@@ -0,0 +1,34 @@
+import { ColumnFilterElementTemplateOptions } from "primereact/column";
+import { TriStateCheckbox } from "primereact/tristatecheckbox";
+import { Dropdown } from "primereact/dropdown";
+import { classNames } from "primereact/utils";
+
+/**
+ * Tri-state filter element of boolean columns: any, true or false
+ * @param options filter element options of the column
+ */
+export const triStateFilterTemplate = (options: ColumnFilterElementTemplateOptions) => {
+    return <TriStateCheckbox value={options.value} onChange={(event) => options.filterApplyCallback(event.value)} />;
+}
+
+/**
+ * Dropdown filter element factory
+ * @param items selectable values
+ * @param placeholder text of empty filter
+ * @param optionLabel label field of object items
+ * @param optionValue value field of object items
+ */
+export const dropdownFilterTemplate = (items: unknown[] | undefined, placeholder: string, optionLabel?: string, optionValue?: string) => {
+    return (options: ColumnFilterElementTemplateOptions) => (
+        <Dropdown value={options.value} options={items} optionLabel={optionLabel} optionValue={optionValue} onChange={(event) => options.filterApplyCallback(event.value)}
+            placeholder={placeholder} showClear filter style={{ minWidth: '10rem' }} />
+    );
+}
+
+/**
+ * Boolean column body as check or cross icon
+ * @param value the boolean value
+ */
+export const booleanBodyTemplate = (value: boolean) => {
+    return <i className={classNames('pi', { 'pi-check-circle text-green-500': value, 'pi-times-circle text-red-400': !value })}></i>;
+}
@@ -0,0 +1,197 @@
+import { ReactNode, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog } from "primereact/dialog";
+import { DataTable, DataTableStateEvent, DataTableSelectionChangeEvent, DataTableValueArray } from "primereact/datatable";
+import { Column } from "primereact/column";
+import { Button } from "primereact/button";
+import { ConfirmDialog, confirmDialog } from "primereact/confirmdialog";
+import dayjs from "dayjs";
+import { countChannels, countEnergyMeters, errorMessage, fetchChannels, fetchEnergyMeters, ListParams, MutationResult, purgeChannel, purgeEnergyMeter, restoreChannel, restoreEnergyMeter } from "../utils/ApiClient";
+import { runBatch } from "../utils/Batch";
+import { useTranslation } from "./LanguageProvider";
+
+/**
+ * Entities with a trash
+ */
+export type TrashEntity = "energy_meter" | "channels";
+
+/**
+ * A trashed row, energy meter or channel
+ */
+type TrashedRow = EnergyMeterValues | ChannelValues;
+
+/**
+ * RestAPI calls of the trash of an entity
+ */
+interface TrashApi {
+    fetch: (params: ListParams) => Promise<TrashedRow[]>;
+    count: (filters: object, trash: boolean) => Promise<number>;
+    restore: (id: number) => Promise<MutationResult>;
+    purge: (id: number) => Promise<MutationResult>;
+}
+
+/**
+ * RestAPI calls of entities
+ */
+const trashApis: Record<TrashEntity, TrashApi> = {
+    energy_meter: { fetch: fetchEnergyMeters, count: countEnergyMeters, restore: restoreEnergyMeter, purge: purgeEnergyMeter },
+    channels: { fetch: fetchChannels, count: countChannels, restore: restoreChannel, purge: purgeChannel },
+};
+
+/**
+ * Column of the trash table
+ */
+export interface TrashColumn {
+    field: string;
+    header: string;
+    body?: (row: TrashedRow) => ReactNode;
+}
+
+interface TrashDialogProps {
+    entity: TrashEntity;
+    visible: boolean;
+    onHide: () => void;
+    columns: TrashColumn[];
+    /**
+     * Called after rows are restored, so the page can reload its table
+     */
+    onRestored: () => void;
+    /**
+     * Show message of the parent page
+     */
+    show: (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => void;
+}
+
+/**
+ * Trash of energy meters or channels with restore and purge
+ * @returns the TrashDialog ReactComponent
+ */
+const TrashDialog = (props: TrashDialogProps) => {
+    const { entity, visible, onHide, columns, onRestored, show } = props;
+    const queryClient = useQueryClient();
+    const api = trashApis[entity];
+    const { t, dateTimeFormat } = useTranslation();
+
+    /**
+     * Lazy data model state
+     */
+    const [lazyState, setLazyState] = useState<DataTableStateEvent>({
+        first: 0,
+        rows: 10,
+        page: 0,
+        pageCount: 0,
+        sortField: "",
+        sortOrder: 1,
+        multiSortMeta: [],
+        filters: {},
+    });
+    /**
+     * The selected trashed rows
+     */
+    const [selectedRows, setSelectedRows] = useState<TrashedRow[]>([]);
+    /**
+     * A restore or purge is running
+     */
+    const [busy, setBusy] = useState(false);
+
+    /**
+     * Trashed rows query
+     */
+    const { data: rows, isLoading: isDataLoading } = useQuery({
+        queryKey: ["trash", entity, lazyState.first, lazyState.rows],
+        queryFn: () => api.fetch({ first: lazyState.first, rows: lazyState.rows, trash: true, sort: [{ field: "deleted_at", order: -1 }] }),
+        enabled: visible,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Trashed rows count query
+     */
+    const { data: count, isLoading: isCountLoading } = useQuery<number>({
+        queryKey: ["trashcount", entity],
+        queryFn: () => api.count({}, true),
+        enabled: visible,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Run restore or purge on the selected rows and report the failures
+     * @param operation RestAPI call of a row
+     * @param succeeded message of success, with {count} placeholder
+     * @param failed message of failures, with {count}, {total} and {errors} placeholders
+     */
+    const process = async (operation: (id: number) => Promise<MutationResult>, succeeded: string, failed: string) => {
+        setBusy(true);
+        const results = await runBatch(selectedRows, (row) => operation(row.id));
+        setBusy(false);
+        setSelectedRows([]);
+        queryClient.invalidateQueries({ queryKey: ["trash", entity] });
+        queryClient.invalidateQueries({ queryKey: ["trashcount", entity] });
+        const failures = results.filter((result) => result.error !== undefined);
+        if (failures.length === 0) {
+            show("success", t(succeeded, { count: results.length }));
+        } else {
+            show("warn", t(failed, { count: failures.length, total: results.length, errors: failures.map((failure) => failure.error).join(", ") }));
+        }
+        return results.length - failures.length;
+    }
+
+    /**
+     * Restore the selected rows
+     */
+    const restoreSelected = async () => {
+        if (await process(api.restore, "Restored {count} items", "{count} of {total} items could not be restored: {errors}") > 0) {
+            onRestored();
+        }
+    }
+
+    /**
+     * Purge the selected rows after confirmation
+     */
+    const purgeSelected = () => {
+        confirmDialog({
+            header: t("Purge"),
+            icon: "pi pi-exclamation-triangle",
+            message: t("Permanently delete {count} items? This cannot be undone.", { count: selectedRows.length }),
+            acceptClassName: "p-button-danger",
+            accept: () => process(api.purge, "Purged {count} items", "{count} of {total} items could not be purged: {errors}"),
+        });
+    }
+
+    const footer = (
+        <div className="flex justify-content-between">
+            <span className="align-self-center">{t("{count} selected", { count: selectedRows.length })}</span>
+            <div>
+                <Button type="button" label={t("Restore")} icon="pi pi-replay" disabled={selectedRows.length === 0} loading={busy} onClick={restoreSelected} />
+                <Button type="button" label={t("Purge")} icon="pi pi-trash" severity="danger" disabled={selectedRows.length === 0 || busy} onClick={purgeSelected} />
+            </div>
+        </div>
+    );
+
+    return (
+        <Dialog header={t("Trash")} visible={visible} onHide={onHide} footer={footer} style={{ width: '60vw' }}>
+            <ConfirmDialog />
+            <DataTable value={rows ?? []}
+                dataKey="id"
+                selectionMode="checkbox"
+                selection={selectedRows}
+                onSelectionChange={(event: DataTableSelectionChangeEvent<DataTableValueArray>) => setSelectedRows(event.value as TrashedRow[])}
+                first={lazyState.first}
+                paginator={true}
+                lazy={true}
+                rows={lazyState.rows}
+                totalRecords={count ?? 0}
+                onPage={(event) => setLazyState(event)}
+                loading={isDataLoading || isCountLoading}
+                emptyMessage={t("The trash is empty")}
+                size="small"
+            >
+                <Column selectionMode="multiple" headerStyle={{ width: '3rem' }}></Column>
+                {columns.map((column) => <Column key={column.field} field={column.field} header={t(column.header)} body={column.body}></Column>)}
+                <Column field="deleted_at" header={t("Deleted")} body={(row: TrashedRow) => row.deleted_at ? dayjs(row.deleted_at).format(dateTimeFormat) : ''}></Column>
+            </DataTable>
+        </Dialog>
+    );
+}
+
+export default TrashDialog;
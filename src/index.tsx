@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import AuthProvider from './components/AuthProvider';
+import LanguageProvider from './components/LanguageProvider';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -11,6 +13,10 @@ const queryClient = new QueryClient({ defaultOptions: { queries: { refetchOnWind
 
 root.render(
   <QueryClientProvider client={queryClient}>
-    <App />
+    <LanguageProvider>
+      <AuthProvider>
+        <App />
+      </AuthProvider>
+    </LanguageProvider>
   </QueryClientProvider>
 );
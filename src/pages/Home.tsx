@@ -1,8 +1,9 @@
-import { useRef, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { DataTable, DataTableValueArray } from "primereact/datatable";
 import { Column } from "primereact/column";
-import { Controller, FieldErrors, useForm } from "react-hook-form";
+import { Controller, FieldErrors, useForm, useWatch } from "react-hook-form";
 import * as z from 'zod';
 import { Toast } from "primereact/toast";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -10,29 +11,97 @@ import { Button } from "primereact/button";
 import { classNames } from "primereact/utils";
 import { Calendar } from 'primereact/calendar';
 import { Dropdown } from "primereact/dropdown";
+import { MultiSelect } from "primereact/multiselect";
+import { SelectButton } from "primereact/selectbutton";
+import { InputSwitch } from "primereact/inputswitch";
+import { Tag } from "primereact/tag";
 import dayjs from "dayjs";
+import { errorMessage } from "../utils/ApiClient";
+import { channelKey, fetchMergedReport, reportFromSearchParams, reportToSearchParams } from "../utils/Report";
+import { channelsOfEnergyMetersQuery, energyMetersQuery, reportPresetsQuery, tariffsQuery } from "../utils/Queries";
+import { presetSearchParams } from "../utils/Presets";
+import PresetDialog from "../components/PresetDialog";
+import { costBreakdown, costTotals, formatCost, priceReport, tariffBandLabel } from "../utils/Tariff";
+import { checkQuality, qualityRules, qualitySummary } from "../utils/Quality";
+import { filledLabel, fillGaps, gapFillOptions } from "../utils/GapFill";
+import { granularities, rollUp, sourceDetails } from "../utils/Granularity";
+import { pivotReport } from "../utils/Pivot";
+import MeasurementsChart from "../components/MeasurementsChart";
+import { DisplayZone, displayZoneOptions, withDisplayTimes } from "../utils/DisplayZone";
+import ExportButtons from "../components/ExportButtons";
+import { ExportColumn } from "../utils/Converter";
+import { useTranslation } from "../components/LanguageProvider";
+import { localeOf } from "../utils/I18n";
 
 
 /**
- * The report details
+ * The columns of measurements table and export
  */
-const details = ['hourly', 'daily', 'monthly'];
+const reportColumns: ExportColumn[] = [
+    { field: "from_time", header: "From" },
+    { field: "to_time", header: "To" },
+    { field: "time_zone", header: "Time zone" },
+    { field: "dst", header: "DST" },
+    { field: "asset_name", header: "Asset name" },
+    { field: "channel_name", header: "Channel name" },
+    { field: "channel", header: "Channel" },
+    { field: "measured_value", header: "Measured value" },
+    { field: "diff", header: "Diff" },
+    { field: "tariff_band", header: "Tariff band" },
+    { field: "cost", header: "Cost" },
+    { field: "currency", header: "Currency" },
+    { field: "quality", header: "Quality" },
+    { field: "filled", header: "Filled" },
+];
+
+/**
+ * The report views
+ */
+const views = [{ label: 'Table', value: 'table', icon: 'pi pi-table' }, { label: 'Chart', value: 'chart', icon: 'pi pi-chart-bar' }];
 
 /**
  * Home component
  * @returns the Home ReactComponent
  */
 const Home = () => {
+    const queryClient = useQueryClient();
+    const { language, t, formatNumber, dateTimeFormat } = useTranslation();
+
+    /**
+     * Report parameters in the URL query string
+     */
+    const [searchParams, setSearchParams] = useSearchParams();
 
     /**
      * The tabla of measurements
      */
-    const [measurements, setMeasurements] = useState([]);
+    const [measurements, setMeasurements] = useState<ReportRow[]>([]);
+
+    /**
+     * Show only the rows flagged by data-quality rules
+     */
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+    /**
+     * Time zone of displayed and exported times
+     */
+    const [displayZone, setDisplayZone] = useState<DisplayZone>("meter");
+
+    /**
+     * Show one row per interval with the channels as columns
+     */
+    const [pivot, setPivot] = useState(false);
 
     /**
-     * The channels of selected powermeter
+     * The selected report view
      */
-    const [channels, setChannels] = useState([]);
+    const [view, setView] = useState<"table" | "chart">("table");
+
+
+    /**
+     * Report saved as a new preset, the preset dialog is open while set
+     */
+    const [presetReport, setPresetReport] = useState<FormValues | undefined>(undefined);
 
     /**
      * Zod validator of form input values
@@ -40,15 +109,12 @@ const Home = () => {
     const schema = z.object({
         fromDate: z.date(),
         toDate: z.date(),
-        ipAddress: z.string().ip("v4").nonempty(),
-        channel: z.number().nullable(),
-        details: z.string().nonempty()
+        ipAddresses: z.array(z.string().ip("v4")).nonempty(),
+        channels: z.array(z.string()),
+        details: z.string().nonempty(),
+        gapFill: z.enum(["none", "empty", "carry", "linear"]).optional()
     });
 
-    interface formValues {
-        fromDate: string, toDate: string, ipAddress: string, channel: number, details: string
-    }
-
     /**
      * Toaster reference
      */
@@ -57,7 +123,12 @@ const Home = () => {
     /**
      * React hook form
      */
-    const { control, handleSubmit, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(schema) });
+    const { control, handleSubmit, reset, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(schema), defaultValues: { ipAddresses: [], channels: [], gapFill: "none" } });
+
+    /**
+     * IP addresses of selected powermeters
+     */
+    const ipAddresses = useWatch({ control, name: "ipAddresses" });
 
     /**
      * Show message
@@ -66,7 +137,7 @@ const Home = () => {
      */
     const show = (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => {
         if (toast.current !== null) {
-            toast.current.show({ severity: severity, summary: 'Form submit', detail: message });
+            toast.current.show({ severity: severity, summary: t('Form submit'), detail: message });
         }
     }
 
@@ -76,102 +147,239 @@ const Home = () => {
      */
     const onSubmitError = (errors: FieldErrors<FormValues>) => {
         //console.log(errors);
-        show("error", "Please fill form as needed. Read tooltips on red marked fields.");
+        show("error", t("Please fill form as needed. Read tooltips on red marked fields."));
+    }
+
+    /**
+     * Check the report details against the requested period
+     * @param data the form input values
+     * @returns true when the report can be run
+     */
+    const checkDetails = (data: FormValues) => {
+        if (dayjs(data.fromDate).get("year") < dayjs().get("year") && sourceDetails(data.details) !== "monthly") {
+            show("error", t("Details must be monthly, quarterly or yearly when required year less then current year"));
+            return false;
+        }
+        return true;
     }
 
     /**
-     * Form submit handler
+     * Form submit handler. Runs the report through the URL, so it becomes a browser history entry.
      * @param data the form input values
      */
     const onSubmit = (data: FormValues) => {
-        if (dayjs(data.fromDate).get("year") < dayjs().get("year") && (data.details !== "monthly")) {
-            show("error", "Details must be monthly when required year less then current year");
-        } else {
+        if (!checkDetails(data)) {
+            return;
+        }
+        const params = reportToSearchParams(data);
+        if (params.toString() === searchParams.toString()) {
             updateTable(data);
+        } else {
+            setSearchParams(params);
         }
     }
 
+    /**
+     * Open the preset dialog with the current report
+     */
+    const savePreset = handleSubmit((data) => setPresetReport(data), onSubmitError);
+
+    /**
+     * Fill the form and run the report when the URL query string changes (opened link, back/forward navigation)
+     */
+    useEffect(() => {
+        const values = reportFromSearchParams(searchParams);
+        if (values && schema.safeParse(values).success) {
+            reset(values);
+            if (checkDetails(values)) {
+                updateTable(values);
+            }
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [searchParams]);
+
+    /**
+     * DataTable reference
+     */
+    const dt = useRef<DataTable<DataTableValueArray>>(null);
+
+    /**
+     * Powermeter UseQuery
+     */
+    const { data: energy_meterValues } = useQuery({
+        ...energyMetersQuery,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Report presets UseQuery
+     */
+    const { data: presets } = useQuery({
+        ...reportPresetsQuery,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Ids of selected powermeters
+     */
+    const selectedMeterIds = (energy_meterValues ?? []).filter((item) => ipAddresses.includes(item.ip_address)).map((item) => item.id);
+
+    /**
+     * Channels of selected powermeters UseQuery
+     */
+    const { data: channels } = useQuery({
+        ...channelsOfEnergyMetersQuery(selectedMeterIds),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Channel options grouped by powermeter
+     */
+    const channelOptions = (energy_meterValues ?? []).filter((item) => ipAddresses.includes(item.ip_address)).map((energyMeter) => ({
+        label: energyMeter.asset_name,
+        items: (channels ?? []).filter((item) => item.energy_meter_id === energyMeter.id).map((item) => ({
+            label: item.channel_name,
+            value: channelKey(energyMeter.ip_address, item.channel),
+        })),
+    }));
+
+    const [isLoading, setIsLoading] = useState(false);
+
+    /**
+     * The report rows with their times in the display time zone
+     */
+    const zonedRows = withDisplayTimes(measurements, displayZone, energy_meterValues ?? [], dateTimeFormat, t);
+
+    /**
+     * The displayed and exported rows
+     */
+    const visibleRows = flaggedOnly ? zonedRows.filter((row) => row.quality !== undefined) : zonedRows;
+
+    /**
+     * The displayed and exported pivot of the visible rows
+     */
+    const pivoted = pivot ? pivotReport(visibleRows) : undefined;
+
     const header = (
         <div className="flex align-items-center justify-content-end gap-2">
-            <Button type="button" icon="pi pi-file" rounded onClick={() => exportCSV(false)} data-pr-tooltip="CSV" />
+            <ExportButtons data={() => pivoted ? pivoted.rows : visibleRows.map((row) => ({ ...row, filled: filledLabel(row, t), tariff_band: tariffBandLabel(row, t) }))}
+                columns={pivoted ? pivoted.columns : reportColumns} filename="measurements" onError={(message) => show("error", message)} />
         </div>
     );
 
     /**
-     * DataTable reference
+     * Consumption and cost by tariff band
      */
-    const dt = useRef<DataTable<DataTableValueArray>>(null);
+    const breakdown = costBreakdown(measurements);
 
     /**
-     * Export measurements data to CSV
-     * @param selectionOnly export only selected data 
+     * Count of rows flagged by data-quality rules
      */
-    const exportCSV = (selectionOnly: boolean) => {
-        if (dt && dt.current) {
-            const currentRef = dt.current;
-            currentRef.exportCSV({ selectionOnly });
-        }
-    };
+    const summary = qualitySummary(measurements);
+    const flaggedCount = measurements.filter((row) => row.quality !== undefined).length;
 
     /**
-     * Get all powermeters from RestAPI
-     * @returns powermeters array
+     * Quality column template
+     * @param row the report row
      */
-    const fetchEnergy_meterValues = async () => {
-        let response = await fetch('/api/admin/crud/energy_meter');
-        let data = await response.json();
-        return data;
+    const qualityBodyTemplate = (row: ReportRow) => {
+        return row.quality ? <span className="text-orange-600"><i className="pi pi-exclamation-triangle mr-1"></i>{row.quality}</span> : '';
     }
 
     /**
-     * Powermeter UseQuery
+     * Filled column template, received rows adjusted by gap filling are marked too
+     * @param row the report row
      */
-    const { data: energy_meterValues } = useQuery({
-        queryKey: ["energy_meter"],
-        queryFn: fetchEnergy_meterValues
-    });
+    const filledBodyTemplate = (row: ReportRow) => {
+        const label = filledLabel(row, t);
+        return label ? <Tag value={label} severity={row.filled ? "info" : "warning"} icon={row.filled ? "pi pi-clone" : "pi pi-pencil"} /> : '';
+    }
 
     /**
-     * Get all channel of powermeter from RestAPI
-     * @param energy_meter_id chanels of powermeter
+     * Tariff band column template of report and cost breakdown rows
+     * @param row the report or cost breakdown row
      */
-    const fetchChannels = async (energy_meter_id: number) => {
-        let filter = encodeURIComponent(JSON.stringify({ energy_meter_id: energy_meter_id }));
-        let result = await fetch('/api/admin/crud/channels?filter=' + filter);
-        let data = await result.json();
-        setChannels(data);
+    const tariffBandBodyTemplate = (row: Pick<ReportRow, "tariff_band" | "tariff_base">) => {
+        return tariffBandLabel(row, t) ?? '';
     }
 
-    const [isLoading, setIsLoading] = useState(false);
+    /**
+     * Column template of numbers in the format of the selected language, other values are shown as they are
+     * @param field the field of the column
+     */
+    const numberBodyTemplate = (field: string) => (row: object) => {
+        const value = (row as Record<string, unknown>)[field];
+        return typeof value === "number" ? formatNumber(value) : value as ReactNode;
+    }
+
+    /**
+     * DST column template
+     * @param row the report or pivot row
+     */
+    const dstBodyTemplate = (row: { dst?: string }) => {
+        return row.dst ? <Tag value={row.dst} severity="warning" icon="pi pi-clock" /> : '';
+    }
+
+    /**
+     * Highlight of flagged rows, negative diffs are the most severe
+     * @param row the report row
+     */
+    const rowClassName = (row: ReportRow) => {
+        return {
+            'bg-red-50': row.quality_rules?.includes("negative_diff"),
+            'bg-yellow-50': row.quality_rules !== undefined && !row.quality_rules.includes("negative_diff"),
+            'font-italic text-500': row.filled !== undefined,
+        };
+    }
+
+    /**
+     * Cost column template
+     * @param row the report row
+     */
+    const costBodyTemplate = (row: { cost?: number, currency?: string }) => {
+        return row.cost !== undefined && row.currency !== undefined ? formatCost(row.cost, row.currency, localeOf(language)) : '';
+    }
 
     /**
      * Get all measurements
      * @param params parameters of measurements report
      */
-    const updateTable = async (params: formValues) => {
-        let values = [];
+    const updateTable = async (params: FormValues) => {
         if (dt && dt.current) {
             dt.current.reset();
         }
         setIsLoading(true);
-        let path = `/api/measurements/report?fromdate=${dayjs(params.fromDate).format("YYYY-MM-DD")}&todate=${dayjs(params.toDate).format("YYYY-MM-DD")}&ip=${params.ipAddress}&details=${params.details}`;
-        if (params.channel > 0) {
-            path += `&channel=${params.channel}`;
+        try {
+            const energyMeters = await queryClient.fetchQuery(energyMetersQuery);
+            const meterIds = energyMeters.filter((item) => params.ipAddresses.includes(item.ip_address)).map((item) => item.id);
+            const meterChannels = await queryClient.fetchQuery(channelsOfEnergyMetersQuery(meterIds));
+            const report = await fetchMergedReport({ ...params, details: sourceDetails(params.details) }, energyMeters, meterChannels);
+            report.errors.forEach((message) => show("error", message));
+            const tariffs = await queryClient.fetchQuery(tariffsQuery).catch((err) => {
+                show("error", t("Costs are not calculated: {error}", { error: errorMessage(err) }));
+                return [];
+            });
+            const rows = rollUp(report.rows, params.details, energyMeters);
+            const filled = fillGaps(checkQuality(rows, params.details, undefined, t), params, energyMeters, meterChannels);
+            const priced = priceReport(filled, tariffs, energyMeters, meterChannels);
+            if (priced.timeOfUse && params.details !== "15min" && params.details !== "hourly") {
+                show("warn", t("Time-of-use bands are applied at the start of each row, use 15-minute or hourly details for exact costs"));
+            }
+            setMeasurements(priced.rows);
+        } catch (err) {
+            show("error", errorMessage(err));
+            setMeasurements([]);
+        } finally {
+            setIsLoading(false);
         }
-        const res = await fetch(path);
-        values = await res.json();
-        setIsLoading(false);
-        if (values.err) {
-            show("error", values.err);
-            values = [];
-        }
-        setMeasurements(values);
     }
 
     return (
         <div className="card">
             <Toast ref={toast} />
-            <h1>Measurements</h1>
+            <PresetDialog visible={presetReport !== undefined} report={presetReport} onHide={() => setPresetReport(undefined)}
+                onSaved={(message) => show("success", message)} onError={(message) => show("error", message)} />
+            <h1>{t("Measurements")}</h1>
             <div className="">
                 <form onSubmit={handleSubmit(onSubmit, onSubmitError)} style={{ width: '100%' }}>
                     <Controller
@@ -180,7 +388,7 @@ const Home = () => {
                         rules={{ required: 'from date is required.' }}
                         render={({ field, fieldState }) => (
                             <>
-                                <Calendar id={field.name} value={field.value || ''} placeholder="From date" tooltip={errors.fromDate?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange((event.target.value as string))} dateFormat="yy-mm-dd" />
+                                <Calendar id={field.name} value={field.value || ''} placeholder={t("From date")} tooltip={errors.fromDate?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange((event.target.value as Date))} />
                             </>
                         )}
                     />
@@ -190,38 +398,27 @@ const Home = () => {
                         rules={{ required: 'to date is required.' }}
                         render={({ field, fieldState }) => (
                             <>
-                                <Calendar id={field.name} value={field.value || ''} placeholder="To date" tooltip={errors.fromDate?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange((event.target.value as string))} dateFormat="yy-mm-dd" />
+                                <Calendar id={field.name} value={field.value || ''} placeholder={t("To date")} tooltip={errors.toDate?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange((event.target.value as Date))} />
                             </>
                         )}
                     />
                     <Controller
-                        name="ipAddress"
+                        name="ipAddresses"
                         control={control}
-                        rules={{ required: 'Time zone is required.' }}
+                        rules={{ required: 'Energy meter is required.' }}
                         render={({ field, fieldState }) => (
                             <>
-
-                                <Dropdown id={field.name} value={field.value} tooltip={errors.ipAddress?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => {
-                                    let energymeter = energy_meterValues.filter((item: EnergyMeterValues) => {
-                                        return item.ip_address === event.target.value;
-                                    })
-                                    if (energymeter.length > 0) {
-                                        fetchChannels(energymeter[0].id);
-                                    }
-                                    field.onChange(event.target.value)
-                                }} options={energy_meterValues} optionLabel="asset_name" optionValue="ip_address" placeholder="Select asset" />
-
-
+                                <MultiSelect id={field.name} value={field.value} tooltip={errors.ipAddresses?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.value)} options={energy_meterValues} optionLabel="asset_name" optionValue="ip_address" placeholder={t("Select assets")} display="chip" filter />
                             </>
                         )}
                     />
                     <Controller
-                        name="channel"
+                        name="channels"
                         control={control}
                         rules={{}}
                         render={({ field, fieldState }) => (
                             <>
-                                <Dropdown id={field.name} value={field.value} tooltip={errors.channel?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.target.value)} options={[{ channel_name: "All", channel: -1 }, ...channels]} optionLabel="channel_name" optionValue="channel" placeholder="Select channel" />
+                                <MultiSelect id={field.name} value={field.value} tooltip={errors.channels?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.value)} options={channelOptions} optionGroupLabel="label" optionGroupChildren="items" optionLabel="label" optionValue="value" placeholder={t("All channels")} display="chip" />
                             </>
                         )}
                     />
@@ -231,17 +428,52 @@ const Home = () => {
                         rules={{ required: 'Details is required.' }}
                         render={({ field, fieldState }) => (
                             <>
-                                <Dropdown id={field.name} value={field.value} tooltip={errors.ipAddress?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.target.value)} options={details} placeholder="Select details" />
+                                <Dropdown id={field.name} value={field.value} tooltip={errors.details?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.target.value)} options={granularities.map((item) => ({ ...item, label: t(item.label) }))} optionLabel="label" optionValue="value" placeholder={t("Select details")} />
+                            </>
+                        )}
+                    />
+                    <Controller
+                        name="gapFill"
+                        control={control}
+                        render={({ field }) => (
+                            <>
+                                <Dropdown id={field.name} value={field.value} onChange={(event) => field.onChange(event.value)} options={gapFillOptions.map((item) => ({ ...item, label: t(item.label) }))} tooltip={t("Missing intervals")} />
                             </>
                         )}
                     />
                     <span className="filter-labels">
-                        <Button label="Send" icon="pi pi-check" type="submit" />
+                        <Button label={t("Send")} icon="pi pi-check" type="submit" />
+                        <Button label={t("Save preset")} icon="pi pi-bookmark" type="button" outlined onClick={savePreset} />
                     </span>
+                    <Dropdown value={null} options={presets ?? []} optionLabel="name" placeholder={t("Run preset")} filter emptyMessage={t("No saved presets")}
+                        onChange={(event) => event.value && setSearchParams(presetSearchParams(event.value as ReportPreset))} />
                 </form>
             </div>
-            <div className="card">
-                <DataTable value={measurements}
+            <div className="flex align-items-center justify-content-between gap-2 mt-3">
+                <SelectButton value={view} onChange={(event) => event.value && setView(event.value)} options={views.map((item) => ({ ...item, label: t(item.label) }))} optionLabel="label" optionValue="value" />
+                {view === "table" && <span className="flex align-items-center gap-2">
+                    <InputSwitch inputId="pivot" checked={pivot} onChange={(event) => setPivot(event.value ? true : false)} />
+                    <label htmlFor="pivot">{t("Channels as columns")}</label>
+                </span>}
+                <Dropdown value={displayZone} options={displayZoneOptions().map((item) => ({ ...item, label: t(item.label, { zone: dayjs.tz.guess() }) }))} onChange={(event) => setDisplayZone(event.value)} filter tooltip={t("Time zone of displayed and exported times")} />
+            </div>
+            {view === "chart" && <div className="card">
+                <MeasurementsChart measurements={zonedRows} />
+            </div>}
+            {measurements.length > 0 && <div className="card flex flex-wrap align-items-center gap-2">
+                <span className="font-bold">{t("Data quality:")}</span>
+                {flaggedCount === 0 && <Tag value={t("No issues found")} severity="success" />}
+                {qualityRules.filter((item) => summary[item.rule] > 0).map((item) => (
+                    <Tag key={item.rule} value={`${t(item.label)}: ${summary[item.rule]}`} severity={item.rule === "negative_diff" ? "danger" : "warning"} />
+                ))}
+                {flaggedCount > 0 && <span>{t("{count} of {total} rows flagged", { count: flaggedCount, total: measurements.length })}</span>}
+                <span className="flex align-items-center gap-2 ml-auto">
+                    <InputSwitch inputId="flaggedOnly" checked={flaggedOnly} onChange={(event) => setFlaggedOnly(event.value ? true : false)} />
+                    <label htmlFor="flaggedOnly">{t("Flagged only")}</label>
+                </span>
+            </div>}
+            <div className="card" style={{ display: view === "table" ? undefined : 'none' }}>
+                {pivoted ? <DataTable value={pivoted.rows}
                     ref={dt}
                     header={header}
                     tableStyle={{ minWidth: '50rem' }}
@@ -249,17 +481,35 @@ const Home = () => {
                     paginator={true}
                     rows={100}
                 >
-                    <Column field="from_local_time" header="From Local Time"></Column>
-                    <Column field="to_local_time" header="To Local Time"></Column>
-                    <Column field="from_server_time" header="From Server Time"></Column>
-                    <Column field="to_server_time" header="To Server Time"></Column>
-                    <Column field="from_utc_time" header="From UTC Time"></Column>
-                    <Column field="to_utc_time" header="To UTC Time"></Column>
-                    <Column field="channel" header="Channel"></Column>
-                    <Column field="measured_value" header="Measured value"></Column>
-                    <Column field="diff" header="Diff"></Column>
-                </DataTable>
+                    {pivoted.columns.map((column) => <Column key={column.field} field={column.field} header={t(column.header)}
+                        className={column.field === "total" ? "font-bold" : undefined} body={column.field === "dst" ? dstBodyTemplate : numberBodyTemplate(column.field)}></Column>)}
+                </DataTable> : <DataTable value={visibleRows}
+                    rowClassName={rowClassName}
+                    ref={dt}
+                    header={header}
+                    tableStyle={{ minWidth: '50rem' }}
+                    loading={isLoading}
+                    paginator={true}
+                    rows={100}
+                >
+                    {reportColumns.filter((column) => column.field !== "currency").map((column) => <Column key={column.field} field={column.field} header={t(column.header)}
+                        body={column.field === "cost" ? costBodyTemplate : column.field === "quality" ? qualityBodyTemplate : column.field === "filled" ? filledBodyTemplate : column.field === "dst" ? dstBodyTemplate : column.field === "tariff_band" ? tariffBandBodyTemplate : numberBodyTemplate(column.field)}></Column>)}
+                </DataTable>}
             </div>
+            {breakdown.length > 0 && <div className="card">
+                <h3>{t("Costs")}</h3>
+                <DataTable value={breakdown} size="small" footer={costTotals(breakdown).map((total) => (
+                    <div key={total.currency} className="flex justify-content-between">
+                        <span>{t("Total ({currency}): {consumption}", { currency: total.currency, consumption: formatNumber(total.consumption) })}</span>
+                        <span>{formatCost(total.cost, total.currency, localeOf(language))}</span>
+                    </div>
+                ))}>
+                    <Column field="tariff_band" header={t("Tariff band")} body={tariffBandBodyTemplate}></Column>
+                    <Column field="currency" header={t("Currency")}></Column>
+                    <Column field="consumption" header={t("Consumption")} body={(row) => formatNumber(row.consumption)}></Column>
+                    <Column field="cost" header={t("Cost")} body={costBodyTemplate}></Column>
+                </DataTable>
+            </div>}
         </div>
     )
 }
@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { DataTable, DataTableStateEvent } from "primereact/datatable";
+import { Column } from "primereact/column";
+import { Toast } from "primereact/toast";
+import { Dropdown } from "primereact/dropdown";
+import { InputText } from "primereact/inputtext";
+import { Calendar } from "primereact/calendar";
+import { Button } from "primereact/button";
+import { Tag } from "primereact/tag";
+import dayjs from "dayjs";
+import { AuditFilter, countAuditLog, errorMessage, fetchAuditLog } from "../utils/ApiClient";
+import { useTranslation } from "../components/LanguageProvider";
+
+/**
+ * Pause of typing in milliseconds before the user name filter is applied
+ */
+const typingDelay = 400;
+
+/**
+ * Selectable entities of the filter
+ */
+const entities = [{ label: 'Energy meter', value: 'energy_meter' }, { label: 'Channel', value: 'channels' }];
+
+/**
+ * Severities of audit actions
+ */
+const actionSeverity: Record<AuditEntry["action"], "success" | "info" | "warning" | "danger"> = {
+    create: "success",
+    update: "warning",
+    delete: "danger",
+    restore: "info",
+    purge: "danger",
+};
+
+/**
+ * Display names of audit actions
+ */
+const actionLabels: Record<AuditEntry["action"], string> = {
+    create: "Create",
+    update: "Update",
+    delete: "Delete",
+    restore: "Restore",
+    purge: "Purge",
+};
+
+/**
+ * A changed field of an audit entry
+ */
+interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * Field by field difference of an audit entry
+ * @param entry the audit entry
+ * @returns the changed fields
+ */
+function fieldChanges(entry: AuditEntry): FieldChange[] {
+    const before = entry.before ?? {};
+    const after = entry.after ?? {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+    return fields
+        .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Display text of a field value
+ * @param value the field value
+ */
+function valueText(value: unknown): string {
+    return value === undefined || value === null ? '∅' : typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Read the audit filter from URL query parameters
+ * @param params URL query parameters
+ */
+function filterFromSearchParams(params: URLSearchParams): AuditFilter {
+    const entity = params.get("entity");
+    const entityId = Number(params.get("entity_id"));
+    return {
+        entity: entity === "energy_meter" || entity === "channels" ? entity : undefined,
+        entity_id: params.get("entity_id") && !isNaN(entityId) ? entityId : undefined,
+        username: params.get("username") ?? undefined,
+        from: params.get("from") ?? undefined,
+        to: params.get("to") ?? undefined,
+    };
+}
+
+/**
+ * Write the audit filter into URL query parameters
+ * @param filter the audit filter
+ */
+function filterToSearchParams(filter: AuditFilter): URLSearchParams {
+    const params = new URLSearchParams();
+    Object.entries(filter).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+    return params;
+}
+
+/**
+ * The audit log component
+ * @returns the Audit ReactComponent
+ */
+const Audit = () => {
+    const { t, dateTimeFormat } = useTranslation();
+    /**
+     * The filter lives in the URL, so row context menus can link to it
+     */
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filter = filterFromSearchParams(searchParams);
+
+    /**
+     * Lazy data model state
+     */
+    const [lazyState, setLazyState] = useState<DataTableStateEvent>({
+        first: 0,
+        rows: 20,
+        page: 0,
+        pageCount: 0,
+        sortField: "",
+        sortOrder: 1,
+        multiSortMeta: [],
+        filters: {},
+    });
+
+    /**
+     * Toast reference
+     */
+    const toast = useRef<Toast>(null);
+
+    /**
+     * Show message
+     * @param message message to display
+     */
+    const showError = (message: string) => {
+        if (toast.current !== null) {
+            toast.current.show({ severity: "error", summary: t('Audit log'), detail: message });
+        }
+    }
+
+    /**
+     * Replace the filter and go to the first page
+     * @param changed the new filter
+     */
+    const applyFilter = useCallback((changed: AuditFilter) => {
+        setSearchParams(filterToSearchParams(changed), { replace: true });
+        setLazyState((state) => ({ ...state, first: 0, page: 0 }));
+    }, [setSearchParams]);
+
+    /**
+     * Change some fields of the current filter of the URL and go to the first page
+     * @param changed the changed filter fields
+     */
+    const changeFilter = useCallback((changed: Partial<AuditFilter>) => {
+        setSearchParams((params) => filterToSearchParams({ ...filterFromSearchParams(params), ...changed }), { replace: true });
+        setLazyState((state) => ({ ...state, first: 0, page: 0 }));
+    }, [setSearchParams]);
+
+    /**
+     * Filter of the URL as text, links and the menu can change it too
+     */
+    const filterKey = filterToSearchParams(filter).toString();
+
+    /**
+     * Go to the first page when the URL changes the filter
+     */
+    useEffect(() => {
+        setLazyState((state) => state.first === 0 ? state : { ...state, first: 0, page: 0 });
+    }, [filterKey]);
+
+    /**
+     * User name filter being typed
+     */
+    const [username, setUsername] = useState(filter.username ?? '');
+
+    /**
+     * Follow the user name filter of the URL
+     */
+    useEffect(() => {
+        setUsername(filter.username ?? '');
+    }, [filter.username]);
+
+    /**
+     * Apply the typed user name after a pause of typing
+     */
+    useEffect(() => {
+        if (username === (filter.username ?? '')) {
+            return;
+        }
+        const timer = setTimeout(() => changeFilter({ username: username || undefined }), typingDelay);
+        return () => clearTimeout(timer);
+    }, [username, filter.username, changeFilter]);
+
+    /**
+     * On page request of DataTable
+     */
+    const onPage = useCallback((event: DataTableStateEvent) => {
+        setLazyState(event);
+    }, []);
+
+    /**
+     * Audit log query
+     */
+    const { data: entries, isLoading: isDataLoading } = useQuery({
+        queryKey: ["audit", filter, lazyState.first, lazyState.rows],
+        queryFn: () => fetchAuditLog({ first: lazyState.first, rows: lazyState.rows, filters: filter }),
+        onError: (err) => showError(errorMessage(err))
+    });
+
+    /**
+     * Audit log count query
+     */
+    const { data: count, isLoading: isCountLoading } = useQuery<number>({
+        queryKey: ["auditcount", filter],
+        queryFn: () => countAuditLog(filter),
+        onError: (err) => showError(errorMessage(err))
+    });
+
+    /**
+     * Action column template
+     * @param row the audit entry
+     */
+    const actionBodyTemplate = (row: AuditEntry) => {
+        return <Tag value={t(actionLabels[row.action])} severity={actionSeverity[row.action]} />;
+    }
+
+    /**
+     * Changes column template
+     * @param row the audit entry
+     */
+    const changesBodyTemplate = (row: AuditEntry) => {
+        return (
+            <table className="w-full">
+                <tbody>
+                    {fieldChanges(row).map((change) => (
+                        <tr key={change.field}>
+                            <td className="font-bold pr-2">{change.field}</td>
+                            <td className="text-red-500 line-through pr-2">{valueText(change.before)}</td>
+                            <td className="text-green-600">{valueText(change.after)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        );
+    }
+
+    const dateRange = filter.from ? [dayjs(filter.from).toDate(), ...(filter.to ? [dayjs(filter.to).toDate()] : [])] : null;
+
+    return (
+        <div className="card">
+            <h2>{t("Audit log")}</h2>
+            <Toast ref={toast} />
+            <div className="flex flex-wrap align-items-center gap-2 mb-3">
+                <Dropdown value={filter.entity} options={entities.map((item) => ({ ...item, label: t(item.label) }))} onChange={(event) => changeFilter({ entity: event.value ?? undefined, entity_id: undefined })} placeholder={t("All entities")} showClear />
+                {filter.entity_id !== undefined && <Tag value={t("Id: {id}", { id: filter.entity_id })} icon="pi pi-times" className="cursor-pointer" onClick={() => changeFilter({ entity_id: undefined })} />}
+                <InputText value={username} onChange={(event) => setUsername(event.target.value)} placeholder={t("User")} />
+                <Calendar value={dateRange} selectionMode="range" readOnlyInput placeholder={t("Date range")}
+                    onChange={(event) => {
+                        const range = (event.value ?? []) as (Date | null)[];
+                        changeFilter({
+                            from: range[0] ? dayjs(range[0]).format("YYYY-MM-DD") : undefined,
+                            to: range[1] ? dayjs(range[1]).format("YYYY-MM-DD") : undefined,
+                        });
+                    }} />
+                <Button type="button" icon="pi pi-filter-slash" label={t("Clear")} outlined onClick={() => {
+                    setUsername('');
+                    applyFilter({});
+                }} />
+            </div>
+            <DataTable value={entries ?? []}
+                dataKey="id"
+                first={lazyState.first}
+                paginator={true}
+                lazy={true}
+                rows={lazyState.rows}
+                totalRecords={count ?? 0}
+                onPage={onPage}
+                loading={isDataLoading || isCountLoading}
+                tableStyle={{ minWidth: '50rem' }}
+            >
+                <Column field="timestamp" header={t("Time")} body={(row: AuditEntry) => dayjs(row.timestamp).format(`${dateTimeFormat}:ss`)}></Column>
+                <Column field="username" header={t("User")}></Column>
+                <Column field="entity" header={t("Entity")} body={(row: AuditEntry) => `${t(entities.find((item) => item.value === row.entity)?.label ?? row.entity)} #${row.entity_id}`}></Column>
+                <Column field="action" header={t("Action")} body={actionBodyTemplate}></Column>
+                <Column header={t("Changes")} body={changesBodyTemplate}></Column>
+            </DataTable>
+        </div>
+    )
+}
+
+export default Audit;
@@ -3,18 +3,32 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { DataTable, DataTableStateEvent, DataTableSelectionChangeEvent, DataTableValueArray } from 'primereact/datatable';
 import { Column } from 'primereact/column';
 import { Toast } from "primereact/toast";
-import { useForm, Controller, FieldErrors, SubmitHandler } from "react-hook-form";
+import { useForm, Controller, FieldErrors } from "react-hook-form";
 import { InputText } from 'primereact/inputtext';
 import { InputNumber } from "primereact/inputnumber";
 import { Checkbox } from 'primereact/checkbox';
 import { Dropdown } from "primereact/dropdown";
 import { Button } from "primereact/button";
 import { Dialog } from 'primereact/dialog';
-import { ConfirmDialog } from 'primereact/confirmdialog';
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
+import { channelFormSchema } from "../utils/Schemas";
 import { classNames } from 'primereact/utils';
-import { convertToCSV, downloadCSVFile } from "../utils/Converter";
+import { FilterMatchMode } from 'primereact/api';
+import { ExportColumn } from "../utils/Converter";
+import ExportButtons from "../components/ExportButtons";
+import ImportWizard from "../components/ImportWizard";
+import BulkActionDialog, { BulkAction } from "../components/BulkActionDialog";
+import TrashDialog from "../components/TrashDialog";
+import { BatchResult, runBatch } from "../utils/Batch";
+import { dropdownFilterTemplate, triStateFilterTemplate } from "../components/TableFilters";
+import { activeFilters, lazyListParams } from "../utils/LazyTable";
+import { useAuth } from "../components/AuthProvider";
+import { useTranslation } from "../components/LanguageProvider";
+import { ContextMenu } from "primereact/contextmenu";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { InputSwitch } from "primereact/inputswitch";
+import { countChannels, createChannel, deleteChannel, errorMessage, fetchChannels, restoreChannel, updateChannel } from "../utils/ApiClient";
+import { energyMetersQuery } from "../utils/Queries";
 
 /**
  * The input form objects
@@ -27,14 +41,26 @@ interface FormValues {
 }
 
 /**
- * The Zod validation schema of form data
+ * The exported columns of channels
  */
-const schema = z.object({
-    energy_meter_id: z.number(),
-    channel: z.number().min(1),
-    channel_name: z.string().nonempty(),
-    enabled: z.boolean()
-});
+const exportColumns: ExportColumn[] = [
+    { field: "id", header: "Id" },
+    { field: "energy_meter_id", header: "Energy meter id" },
+    { field: "asset_name", header: "Energy meter name" },
+    { field: "channel", header: "Channel" },
+    { field: "channel_name", header: "Channel Name" },
+    { field: "enabled", header: "Enabled" },
+];
+
+/**
+ * Energy meter filter of the URL
+ * @param searchParams query parameters of the URL
+ * @returns id of the energy meter, null without filter
+ */
+function energyMeterIdParam(searchParams: URLSearchParams): number | null {
+    const value = searchParams.get("energy_meter_id");
+    return value && Number.isInteger(Number(value)) ? Number(value) : null;
+}
 
 /**
  * The Channels component
@@ -42,6 +68,14 @@ const schema = z.object({
  */
 const Channels = () => {
     const queryClient = useQueryClient();
+    const { can } = useAuth();
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    /**
+     * The energy meter filter lives in the URL, so energy meters can link to their channels
+     */
+    const [searchParams, setSearchParams] = useSearchParams();
+    const urlEnergyMeterId = energyMeterIdParam(searchParams);
     /**
     * Lazy data model state
     */
@@ -54,6 +88,9 @@ const Channels = () => {
         sortOrder: 1,
         multiSortMeta: [],
         filters: {
+            energy_meter_id: { value: urlEnergyMeterId, matchMode: FilterMatchMode.EQUALS },
+            channel_name: { value: null, matchMode: FilterMatchMode.CONTAINS },
+            enabled: { value: null, matchMode: FilterMatchMode.EQUALS },
         },
     });
 
@@ -62,17 +99,25 @@ const Channels = () => {
      */
     const [editedRow, setEditedRow] = useState<ChannelValues | null>(null);
     /**
-     * The selected row of channel
+     * The selected rows of channel
      */
-    const [selectedRow, setSelectedRow] = useState<ChannelValues | null>(null);
+    const [selectedRows, setSelectedRows] = useState<ChannelValues[]>([]);
     /**
      * Visibility of form editor dialog
      */
     const [visible, setVisible] = useState(false);
     /**
-     * Visibility of confirm dialog
+     * Bulk action waiting for confirmation
      */
-    const [confirmDialogVisible, setConfirmDialogVisible] = useState(false);
+    const [bulkAction, setBulkAction] = useState<BulkAction<ChannelValues> | undefined>(undefined);
+    /**
+     * Visibility of trash dialog
+     */
+    const [trashVisible, setTrashVisible] = useState(false);
+    /**
+     * Visibility of import wizard
+     */
+    const [importVisible, setImportVisible] = useState(false);
 
     /**
      * On page request of DataTable
@@ -87,13 +132,37 @@ const Channels = () => {
     const onFilter = useCallback((event: DataTableStateEvent) => {
         event.first = 0;
         setLazyState(event);
+        const meta = event.filters.energy_meter_id;
+        const energyMeterId = meta && "value" in meta ? meta.value : null;
+        setSearchParams(energyMeterId !== null && energyMeterId !== undefined ? { energy_meter_id: String(energyMeterId) } : {}, { replace: true });
+    }, [setSearchParams]);
+
+    /**
+     * Follow the energy meter filter of the URL when a link changes it
+     */
+    useEffect(() => {
+        setLazyState((state) => {
+            const meta = state.filters.energy_meter_id;
+            if (meta && "value" in meta && meta.value === urlEnergyMeterId) {
+                return state;
+            }
+            return { ...state, first: 0, filters: { ...state.filters, energy_meter_id: { value: urlEnergyMeterId, matchMode: FilterMatchMode.EQUALS } } };
+        });
+    }, [urlEnergyMeterId]);
+
+    /**
+     * Sort on channels DataTable
+     */
+    const onSort = useCallback((event: DataTableStateEvent) => {
+        event.first = 0;
+        setLazyState(event);
     }, []);
 
     /**
      * Selection changed event callback
      */
     const onSelectionChange = useCallback((e: DataTableSelectionChangeEvent<DataTableValueArray>) => {
-        setSelectedRow(e.value as ChannelValues);
+        setSelectedRows(e.value as ChannelValues[]);
     }, []);
 
     /**
@@ -102,33 +171,33 @@ const Channels = () => {
     const updatePage = () => {
         queryClient.invalidateQueries({ queryKey: ["channels"] });
         queryClient.invalidateQueries({ queryKey: ["channelscount"] });
-        setSelectedRow(null);
+        queryClient.invalidateQueries({ queryKey: ["trash", "channels"] });
+        queryClient.invalidateQueries({ queryKey: ["trashcount", "channels"] });
+        setSelectedRows([]);
     };
     /**
-     * Channels query with RestAPI call
+     * Power meters query, shared with the other pages through the query cache
      */
-    // eslint-disable-next-line
-    const { data: channelsValues, status: dataFetchStatus, isLoading: isDataLoading } = useQuery({
-        queryKey: ["channels", lazyState],
-        queryFn: async () => {
-            const filters = encodeURIComponent(JSON.stringify(lazyState.filters));
-            const res = await fetch(`/api/admin/crud/channels?first=${lazyState.first}&rowcount=${lazyState.rows}&filter=${filters}`);
-            const values = await res.json();
+    const { data: energy_meterValues } = useQuery({
+        ...energyMetersQuery,
+        onError: (err) => show("error", errorMessage(err))
+    });
 
-            const resEnergyMeters = await fetch(`/api/admin/crud/energy_meter`);
-            const energyMetersValues = await resEnergyMeters.json();
+    /**
+     * Asset name of a power meter
+     * @param energy_meter_id id of power meter
+     */
+    const assetName = (energy_meter_id: number) => {
+        return (energy_meterValues ?? []).find((energyMeter: EnergyMeterValues) => energyMeter.id === energy_meter_id)?.asset_name;
+    }
 
-            values.forEach((element: ChannelValues, idx: number) => {
-                const result = energyMetersValues.filter((energyMeter: EnergyMeterValues) => {
-                    return energyMeter.id === element.energy_meter_id;
-                });
-                if (result.length > 0) {
-                    values[idx].assset_name = result[0].asset_name;
-                }
-                values[idx].enabled = values[idx].enabled ? true : false;
-            });
-            return values;
-        }
+    /**
+     * Channels query with RestAPI call
+     */
+    const { data: channelsValues, isLoading: isDataLoading } = useQuery({
+        queryKey: ["channels", lazyState],
+        queryFn: () => fetchChannels(lazyListParams(lazyState)),
+        onError: (err) => show("error", errorMessage(err))
     });
 
     /**
@@ -136,12 +205,8 @@ const Channels = () => {
      */
     const { data: count, isLoading: isCountLoading } = useQuery<number>({
         queryKey: ["channelscount", lazyState],
-        queryFn: async () => {
-            const filters = encodeURIComponent(JSON.stringify(lazyState.filters));
-            const res = await fetch(`/api/admin/crud/channels/count?filter=${filters}`);
-            const { count } = await res.json();
-            return count;
-        }
+        queryFn: () => countChannels(activeFilters(lazyState.filters)),
+        onError: (err) => show("error", errorMessage(err))
     });
 
     /**
@@ -152,7 +217,7 @@ const Channels = () => {
     /**
      * React hook form
      */
-    const { control, handleSubmit, setValue, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(schema) });
+    const { control, handleSubmit, setValue, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(channelFormSchema) });
 
     /**
      * React hook form submition error handler
@@ -160,7 +225,7 @@ const Channels = () => {
      */
     const onSubmitError = (errors: FieldErrors<FormValues>) => {
         //console.log(errors);
-        show("error", "Please fill form as needed. Read tooltips on red marked fields.");
+        show("error", t("Please fill form as needed. Read tooltips on red marked fields."));
     }
 
     /**
@@ -176,33 +241,17 @@ const Channels = () => {
             enabled: data.enabled,
         };
         if (editedRow && editedRow.id) {
-            fetch('/api/admin/crud/channels/' + editedRow.id, {
-                method: 'PUT',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify(params),
-            }).then((response) => { return response.json() }).then((data) => {
+            updateChannel(editedRow.id, params).then((data) => {
                 updatePage();
                 setVisible(false);
-                show("success", `Updated channel: ${JSON.stringify(data)}`);
-            }).catch((err) => show("error", err));
+                show("success", t("Updated channel: {name}", { name: JSON.stringify(data) }));
+            }).catch((err) => show("error", errorMessage(err)));
         } else {
-            fetch('/api/admin/crud/channels', {
-                method: 'POST',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify(params),
-            }).then((response) => { return response.json() }).then((data) => {
+            createChannel(params).then((data) => {
                 updatePage();
                 setVisible(false);
-                show('success', `Saved channel: ${JSON.stringify(data)}`);
-            }).catch((err) => show('error', err));
+                show('success', t("Saved channel: {name}", { name: JSON.stringify(data) }));
+            }).catch((err) => show('error', errorMessage(err)));
         }
     }
 
@@ -213,29 +262,15 @@ const Channels = () => {
      */
     const show = (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => {
         if (toast.current !== null) {
-            toast.current.show({ severity: severity, summary: 'Form submit', detail: message });
+            toast.current.show({ severity: severity, summary: t('Form submit'), detail: message });
         }
     }
 
-    /**
-     * Power meter values state hook
-     */
-    const [energy_meterValues, setEnergy_meterValues] = useState<EnergyMeterValues[]>([]);
-    /**
-     * Power meter values fetch
-     */
-    const fetchEnergy_meterValues = async () => {
-        let response = await fetch('/api/admin/crud/energy_meter');
-        let data = await response.json();
-        setEnergy_meterValues(data);
-    }
-
     /**
      * EditedRow useEffect
      */
     useEffect(() => {
         //console.log(selectedRows);
-        fetchEnergy_meterValues();
         if (editedRow && editedRow.id) {
             setValue("energy_meter_id", editedRow.energy_meter_id);
             setValue("channel", editedRow.channel);
@@ -250,56 +285,153 @@ const Channels = () => {
     }, [editedRow, setValue]);
 
     /**
-     * Delete selected powermeter with RestAPI
-     */
-    const deleteSelectedRow = () => {
-        if (selectedRow) {
-            fetch('/api/admin/crud/channels/' + selectedRow.id, {
-                method: 'DELETE',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify({ action: 'delete' }),
-            }).then((response) => {
-                return response.json();
-            }).then(data => {
-                show("success", `Deleted channels: ${JSON.stringify(data)}`);
-                updatePage();
-            }).catch((err) => show("error", err));
+     * Display name of a channel in bulk actions
+     * @param row the channel
+     */
+    const channelLabel = (row: ChannelValues) => `${assetName(row.energy_meter_id) ?? row.energy_meter_id} / ${row.channel_name} (${row.channel})`;
+
+    /**
+     * Enable or disable the selected channels after confirmation
+     * @param enabled the new state
+     */
+    const bulkToggle = (enabled: boolean) => {
+        setBulkAction({
+            title: enabled ? t("Enable") : t("Disable"),
+            items: selectedRows,
+            itemLabel: channelLabel,
+            change: (row) => `enabled: ${row.enabled} → ${enabled}`,
+            operation: ({ id, ...row }) => updateChannel(id, { ...row, enabled }),
+        });
+    }
+
+    /**
+     * Move the selected channels into the trash after confirmation
+     */
+    const bulkDelete = () => {
+        setBulkAction({
+            title: t("Delete"),
+            items: selectedRows,
+            itemLabel: channelLabel,
+            change: () => t("moved to the trash"),
+            operation: (row) => deleteChannel(row.id),
+            undo: (row) => restoreChannel(row.id),
+        });
+    }
+
+    /**
+     * Show a success message with an undo button
+     * @param message message to display
+     * @param undo called on undo
+     */
+    const showUndo = (message: string, undo: () => void) => {
+        if (toast.current !== null) {
+            toast.current.show({
+                severity: "success", summary: t('Form submit'), life: 10000, detail: (
+                    <div className="flex align-items-center justify-content-between gap-2">
+                        <span>{message}</span>
+                        <Button type="button" label={t("Undo")} icon="pi pi-undo" size="small" outlined onClick={() => {
+                            toast.current?.clear();
+                            undo();
+                        }} />
+                    </div>
+                )
+            });
         }
     }
 
+    /**
+     * Summary of a finished bulk action
+     * @param results results of the selected channels
+     */
+    const onBulkDone = (results: BatchResult<ChannelValues>[]) => {
+        const failed = results.filter((result) => result.error !== undefined).length;
+        const undo = bulkAction?.undo;
+        if (failed === 0 && undo) {
+            showUndo(t("{title}: {count} channels updated", { title: bulkAction?.title ?? "", count: results.length }), () => {
+                runBatch(results.map((result) => result.item), undo).then((undone) => {
+                    const undoFailed = undone.filter((result) => result.error !== undefined).length;
+                    show(undoFailed === 0 ? "success" : "warn", t("Undo: {count} of {total} channels restored", { count: undone.length - undoFailed, total: undone.length }));
+                    updatePage();
+                });
+            });
+        } else if (failed === 0) {
+            show("success", t("{title}: {count} channels updated", { title: bulkAction?.title ?? "", count: results.length }));
+        } else {
+            show("warn", t("{title}: {count} of {total} channels failed", { title: bulkAction?.title ?? "", count: failed, total: results.length }));
+        }
+        updatePage();
+    }
+
+    /**
+     * Enable or disable a channel
+     * @param row the channel
+     * @param enabled the new state
+     */
+    const toggleChannel = (row: ChannelValues, enabled: boolean) => {
+        updateChannel(row.id, {
+            energy_meter_id: row.energy_meter_id,
+            channel: row.channel,
+            channel_name: row.channel_name,
+            enabled: enabled,
+        }).then(() => {
+            updatePage();
+            show("success", t(enabled ? "Enabled channel: {name}" : "Disabled channel: {name}", { name: row.channel_name }));
+        }).catch((err) => show("error", errorMessage(err)));
+    }
+
+    /**
+     * Enabled column template, a switch for users allowed to toggle channels
+     * @param row the channel
+     */
+    const enabledBodyTemplate = (row: ChannelValues) => {
+        return <InputSwitch checked={row.enabled} disabled={!can("channel:toggle")} onChange={(event) => toggleChannel(row, event.value ? true : false)} />;
+    }
+
+    /**
+     * Row context menu reference
+     */
+    const contextMenu = useRef<ContextMenu>(null);
+    /**
+     * The row of opened context menu
+     */
+    const [contextMenuRow, setContextMenuRow] = useState<ChannelValues | null>(null);
+    /**
+     * Row context menu items
+     */
+    const contextMenuItems = [
+        {
+            label: t('Audit log'), icon: 'pi pi-history', disabled: !can("audit:view"), command: () => {
+                if (contextMenuRow) {
+                    navigate(`/audit?entity=channels&entity_id=${contextMenuRow.id}`);
+                }
+            }
+        },
+    ];
+
     /**
      * DataTable reference
      */
     const dt = useRef<DataTable<DataTableValueArray>>(null);
 
     /**
-     * Export measurements data to CSV
-     * @param selectionOnly export only selected data 
+     * Get all channels with energy meter names for export
      */
-    const exportCSV = async (selectionOnly: boolean) => {
-        //dt.current.exportCSV({ selectionOnly });
-        let result = await fetch("/api/admin/crud/channels");
-        let data = await result.json();
-        let csv = convertToCSV(data);
-        downloadCSVFile(csv, "download.csv");
+    const exportData = async () => {
+        const data = await fetchChannels();
+        return data.map((element: ChannelValues) => ({ ...element, asset_name: assetName(element.energy_meter_id) }));
     };
 
     const header = (
         <div className="flex align-items-center justify-content-end gap-2">
-            <Button type="button" icon="pi pi-file" rounded onClick={() => exportCSV(false)} data-pr-tooltip="CSV" />
+            <ExportButtons data={exportData} columns={exportColumns} filename="channels" onError={(message) => show("error", message)} />
         </div>
     );
 
     return (
         <div className="card">
-            <h2>Channels</h2>
+            <h2>{t("Channels")}</h2>
             <Toast ref={toast} />
-            <Dialog header="channels" visible={visible} onHide={() => setVisible(false)} style={{ width: '50vw' }}>
+            <Dialog header={t("Channel")} visible={visible} onHide={() => setVisible(false)} style={{ width: '50vw' }}>
                 <form onSubmit={handleSubmit(onSubmit, onSubmitError)} style={{ width: '100%' }}>
                     <Controller
                         name="energy_meter_id"
@@ -309,10 +441,10 @@ const Channels = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Energy meter: </label>
+                                        <label htmlFor={field.name}>{t("Energy meter")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <Dropdown id={field.name} tooltip={errors.energy_meter_id?.message} className={classNames({ 'p-invalid': fieldState.invalid })} value={field.value} onChange={(event) => field.onChange(event.target.value)} options={energy_meterValues} optionLabel="asset_name" optionValue="id" placeholder="Select Energy meter" style={{ width: '100%' }} />
+                                        <Dropdown id={field.name} tooltip={errors.energy_meter_id?.message && t(errors.energy_meter_id.message)} className={classNames({ 'p-invalid': fieldState.invalid })} value={field.value} onChange={(event) => field.onChange(event.target.value)} options={energy_meterValues} optionLabel="asset_name" optionValue="id" placeholder={t("Select energy meter")} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -326,10 +458,10 @@ const Channels = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Channel: </label>
+                                        <label htmlFor={field.name}>{t("Channel")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <InputNumber id={field.name} value={field.value || 0} tooltip={errors.channel?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onValueChange={(event) => field.onChange((event.target.value as number))} style={{ width: '100%' }} />
+                                        <InputNumber id={field.name} value={field.value || 0} tooltip={errors.channel?.message && t(errors.channel.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onValueChange={(event) => field.onChange((event.target.value as number))} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -343,10 +475,10 @@ const Channels = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Channel name: </label>
+                                        <label htmlFor={field.name}>{t("Channel name")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <InputText id={field.name} value={field.value || ''} tooltip={errors.channel_name?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
+                                        <InputText id={field.name} value={field.value || ''} tooltip={errors.channel_name?.message && t(errors.channel_name.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -360,29 +492,39 @@ const Channels = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Enabled: </label>
+                                        <label htmlFor={field.name}>{t("Enabled")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <Checkbox onChange={(event) => field.onChange(event.target.checked ? true : false)} tooltip={errors.enabled?.message} className={classNames({ 'p-invalid': fieldState.invalid })} checked={field.value}></Checkbox>
+                                        <Checkbox onChange={(event) => field.onChange(event.target.checked ? true : false)} tooltip={errors.enabled?.message && t(errors.enabled.message)} className={classNames({ 'p-invalid': fieldState.invalid })} checked={field.value}></Checkbox>
                                     </div>
                                 </div>
                             </>
                         )}
                     />
                     <div className='flex justify-content-end'>
-                        <Button label="Submit" type="submit" icon="pi pi-check" />
+                        <Button label={t("Submit")} type="submit" icon="pi pi-check" />
                     </div>
                 </form>
             </Dialog>
-            <ConfirmDialog visible={confirmDialogVisible} accept={deleteSelectedRow} message="Are you sure you want to delete item?"
-                header="Confirmation" icon="pi pi-exclamation-triangle" onHide={() => setConfirmDialogVisible(false)} />
+            <ImportWizard entity="channels" visible={importVisible} onHide={() => setImportVisible(false)} />
+            <ContextMenu model={contextMenuItems} ref={contextMenu} onHide={() => setContextMenuRow(null)} />
+            <BulkActionDialog action={bulkAction} onHide={() => setBulkAction(undefined)} onDone={onBulkDone} />
+            <TrashDialog entity="channels" visible={trashVisible} onHide={() => setTrashVisible(false)} onRestored={updatePage} show={show} columns={[
+                { field: "energy_meter_id", header: "Energy meter name", body: (row) => assetName((row as ChannelValues).energy_meter_id) },
+                { field: "channel", header: "Channel" },
+                { field: "channel_name", header: "Channel Name" },
+            ]} />
             <div className="card">
                 <DataTable value={channelsValues}
                     ref={dt}
                     header={header}
-                    selectionMode="single"
-                    selection={selectedRow}
+                    selectionMode="checkbox"
+                    selection={selectedRows}
                     onSelectionChange={onSelectionChange}
+                    contextMenuSelection={contextMenuRow ?? undefined}
+                    onContextMenuSelectionChange={(event) => setContextMenuRow(event.value as ChannelValues)}
+                    onContextMenu={(event) => contextMenu.current?.show(event.originalEvent)}
+                    dataKey="id"
                     first={lazyState.first}
                     paginator={true}
                     lazy={true}
@@ -393,27 +535,40 @@ const Channels = () => {
                     onFilter={onFilter}
                     filters={lazyState.filters}
                     filterDisplay="row"
+                    onSort={onSort}
+                    sortMode="multiple"
+                    multiSortMeta={lazyState.multiSortMeta}
+                    removableSort
                     tableStyle={{ minWidth: '50rem' }}
                 >
-                    <Column selectionMode="single" header="Select one"></Column>
-                    <Column field="assset_name" header="Energy meter name"></Column>
-                    <Column field="channel" header="Channel"></Column>
-                    <Column field="channel_name" header="Channel Name"></Column>
-                    <Column field="enabled" header="Enabled"></Column>
+                    <Column selectionMode="multiple" headerStyle={{ width: '3rem' }}></Column>
+                    <Column field="energy_meter_id" header={t("Energy meter name")} body={(row: ChannelValues) => <Link to={`/energy_meter/${row.energy_meter_id}`}>{assetName(row.energy_meter_id) ?? row.energy_meter_id}</Link>} sortable
+                        filter filterElement={dropdownFilterTemplate(energy_meterValues, t("Any energy meter"), "asset_name", "id")} showFilterMenu={false}></Column>
+                    <Column field="channel" header={t("Channel")} sortable></Column>
+                    <Column field="channel_name" header={t("Channel name")} sortable filter filterPlaceholder={t("Search by name")} showFilterMenu={false}></Column>
+                    <Column field="enabled" header={t("Enabled")} body={enabledBodyTemplate} sortable filter filterElement={triStateFilterTemplate} showFilterMenu={false} dataType="boolean"></Column>
                 </DataTable>
             </div>
-            <div className='vertical-align-baseline'>
-                <Button label="New" icon="pi pi-check" onClick={() => {
-                    setSelectedRow(null);
+            {can("config:edit") && <div className='vertical-align-baseline'>
+                <Button label={t("New")} icon="pi pi-check" onClick={() => {
+                    setSelectedRows([]);
                     setEditedRow(null);
                     setVisible(true);
                 }} />
-                <Button label="Modify" icon="pi pi-check" onClick={() => {
-                    setEditedRow(selectedRow);
+                <Button label={t("Modify")} icon="pi pi-check" onClick={() => {
+                    setEditedRow(selectedRows[0]);
                     setVisible(true);
-                }} disabled={selectedRow && selectedRow.id ? false : true} />
-                <Button label="Delete" icon="pi pi-check" onClick={() => setConfirmDialogVisible(true)} disabled={selectedRow && selectedRow.id ? false : true} />
-            </div>
+                }} disabled={selectedRows.length !== 1} />
+                <Button label={t("Delete")} icon="pi pi-check" onClick={bulkDelete} disabled={selectedRows.length === 0} />
+                <Button label={t("Import")} icon="pi pi-upload" onClick={() => setImportVisible(true)} />
+                <Button label={t("Trash")} icon="pi pi-trash" outlined onClick={() => setTrashVisible(true)} />
+            </div>}
+            {can("channel:toggle") && selectedRows.length > 0 && <div className="flex flex-wrap align-items-center gap-2 mt-3">
+                <span>{t("{count} selected:", { count: selectedRows.length })}</span>
+                <Button label={t("Enable")} icon="pi pi-check-circle" outlined onClick={() => bulkToggle(true)} />
+                <Button label={t("Disable")} icon="pi pi-times-circle" outlined onClick={() => bulkToggle(false)} />
+                <Button label={t("Clear selection")} icon="pi pi-times" text onClick={() => setSelectedRows([])} />
+            </div>}
         </div>
     )
 }
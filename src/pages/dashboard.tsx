@@ -0,0 +1,324 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DataTable } from "primereact/datatable";
+import { Column } from "primereact/column";
+import { Toast } from "primereact/toast";
+import { Tag } from "primereact/tag";
+import { InputNumber } from "primereact/inputnumber";
+import dayjs from "dayjs";
+import { errorMessage, fetchChannels, fetchEnergyMeters, fetchReport, ReportParams } from "../utils/ApiClient";
+import { recordedAt } from "../utils/Report";
+import { useTranslation } from "../components/LanguageProvider";
+
+/**
+ * Local storage key of freshness thresholds
+ */
+const thresholdsKey = "dashboardThresholds";
+
+/**
+ * Freshness thresholds in minutes
+ */
+interface Thresholds {
+    /**
+     * Readings older than this are stale
+     */
+    stale: number;
+    /**
+     * Readings older than this mean the meter is offline
+     */
+    offline: number;
+    /**
+     * Refresh interval of the dashboard
+     */
+    refresh: number;
+}
+
+const defaultThresholds: Thresholds = { stale: 90, offline: 360, refresh: 60 };
+
+/**
+ * Freshness state of a meter
+ */
+type FreshnessState = "online" | "stale" | "offline" | "disabled";
+
+/**
+ * Last readings of an energy meter
+ */
+interface MeterReadings {
+    energyMeter: EnergyMeterValues;
+    /**
+     * Enabled channels of the meter
+     */
+    channels: ChannelValues[];
+    /**
+     * Time of the last reading by channel number
+     */
+    lastReadings: Map<number, dayjs.Dayjs>;
+    error?: string;
+}
+
+/**
+ * Status row of an energy meter
+ */
+interface MeterStatus {
+    energyMeter: EnergyMeterValues;
+    lastReading?: dayjs.Dayjs;
+    state: FreshnessState;
+    /**
+     * Enabled channels without recent data
+     */
+    silentChannels: ChannelValues[];
+    error?: string;
+}
+
+/**
+ * Load the stored thresholds
+ */
+function loadThresholds(): Thresholds {
+    try {
+        const stored = localStorage.getItem(thresholdsKey);
+        return stored ? { ...defaultThresholds, ...JSON.parse(stored) } : defaultThresholds;
+    } catch (err) {
+        return defaultThresholds;
+    }
+}
+
+/**
+ * Freshness state of a reading time
+ * @param lastReading time of last reading
+ * @param thresholds freshness thresholds
+ */
+function freshness(lastReading: dayjs.Dayjs | undefined, thresholds: Thresholds): FreshnessState {
+    if (!lastReading) {
+        return "offline";
+    }
+    const age = dayjs().diff(lastReading, "minute");
+    if (age >= thresholds.offline) {
+        return "offline";
+    }
+    return age >= thresholds.stale ? "stale" : "online";
+}
+
+/**
+ * Days of measurements looked up for the last readings
+ * @param thresholds freshness thresholds
+ */
+function lookbackDays(thresholds: Thresholds): number {
+    return Math.ceil(thresholds.offline / 1440) + 1;
+}
+
+/**
+ * Report requests covering the looked up days. Hourly details are served for the current year only,
+ * so the days of the previous year are looked up in monthly details, keeping meters online over the turn of the year.
+ * @param days days of measurements to look up
+ */
+function readingRequests(days: number): Pick<ReportParams, "fromDate" | "toDate" | "details">[] {
+    const lookback = dayjs().subtract(days, "day");
+    const yearStart = dayjs().startOf("year");
+    const toDate = dayjs().add(1, "day").toDate();
+    if (!lookback.isBefore(yearStart)) {
+        return [{ fromDate: lookback.toDate(), toDate, details: "hourly" }];
+    }
+    return [
+        { fromDate: lookback.toDate(), toDate: yearStart.subtract(1, "day").toDate(), details: "monthly" },
+        { fromDate: yearStart.toDate(), toDate, details: "hourly" },
+    ];
+}
+
+/**
+ * Collect the last readings of every energy meter from the last measurements
+ * @param days days of measurements to look up
+ */
+async function fetchLastReadings(days: number): Promise<MeterReadings[]> {
+    const [energyMeters, channels] = await Promise.all([fetchEnergyMeters(), fetchChannels()]);
+    const requests = readingRequests(days);
+
+    return Promise.all(energyMeters.map(async (energyMeter): Promise<MeterReadings> => {
+        const meterChannels = channels.filter((item) => item.energy_meter_id === energyMeter.id && item.enabled);
+        const lastReadings = new Map<number, dayjs.Dayjs>();
+        if (!energyMeter.enabled) {
+            return { energyMeter, channels: meterChannels, lastReadings };
+        }
+        try {
+            const measurements = (await Promise.all(requests.map((item) => fetchReport({ ...item, ipAddress: energyMeter.ip_address })))).flat();
+            measurements.forEach((element) => {
+                const time = recordedAt(element);
+                const last = lastReadings.get(element.channel);
+                if (!last || time.isAfter(last)) {
+                    lastReadings.set(element.channel, time);
+                }
+            });
+            return { energyMeter, channels: meterChannels, lastReadings };
+        } catch (err) {
+            return { energyMeter, channels: meterChannels, lastReadings, error: errorMessage(err) };
+        }
+    }));
+}
+
+/**
+ * Status of an energy meter by the freshness of its last readings
+ * @param readings last readings of the meter
+ * @param thresholds freshness thresholds
+ */
+function meterStatus(readings: MeterReadings, thresholds: Thresholds): MeterStatus {
+    const { energyMeter, channels, lastReadings, error } = readings;
+    if (!energyMeter.enabled) {
+        return { energyMeter, state: "disabled", silentChannels: [] };
+    }
+    if (error !== undefined) {
+        return { energyMeter, state: "offline", silentChannels: channels, error };
+    }
+    const lastReading = Array.from(lastReadings.values()).reduce<dayjs.Dayjs | undefined>((last, time) => !last || time.isAfter(last) ? time : last, undefined);
+    return {
+        energyMeter,
+        lastReading,
+        state: freshness(lastReading, thresholds),
+        silentChannels: channels.filter((item) => freshness(lastReadings.get(item.channel), thresholds) !== "online"),
+    };
+}
+
+/**
+ * Severities of freshness states
+ */
+const stateSeverity: Record<FreshnessState, "success" | "warning" | "danger" | "info"> = {
+    online: "success",
+    stale: "warning",
+    offline: "danger",
+    disabled: "info",
+};
+
+/**
+ * Display names of freshness states
+ */
+const stateLabels: Record<FreshnessState, string> = {
+    online: "Online",
+    stale: "Stale",
+    offline: "Offline",
+    disabled: "Disabled",
+};
+
+/**
+ * The fleet status dashboard component
+ * @returns the Dashboard ReactComponent
+ */
+const Dashboard = () => {
+    const { t, dateTimeFormat } = useTranslation();
+    /**
+     * Toast reference
+     */
+    const toast = useRef<Toast>(null);
+
+    /**
+     * Freshness thresholds
+     */
+    const [thresholds, setThresholds] = useState<Thresholds>(loadThresholds);
+
+    /**
+     * Thresholds being edited, applied when the input is left
+     */
+    const [draft, setDraft] = useState<Thresholds>(thresholds);
+
+    /**
+     * Change a threshold being edited
+     * @param name name of threshold
+     * @param value new value
+     */
+    const editThreshold = (name: keyof Thresholds, value: number | null) => {
+        if (value && value > 0) {
+            setDraft({ ...draft, [name]: value });
+        }
+    }
+
+    /**
+     * Apply and remember the edited thresholds
+     */
+    const applyThresholds = () => {
+        if (JSON.stringify(draft) !== JSON.stringify(thresholds)) {
+            setThresholds(draft);
+            localStorage.setItem(thresholdsKey, JSON.stringify(draft));
+        }
+    }
+
+    /**
+     * Last readings query, polled on the refresh interval. Only the looked up period is part of the key, the states follow the thresholds.
+     */
+    const { data: fleetReadings, isLoading, dataUpdatedAt } = useQuery({
+        queryKey: ["fleet_status", lookbackDays(thresholds)],
+        queryFn: () => fetchLastReadings(lookbackDays(thresholds)),
+        refetchInterval: thresholds.refresh * 1000,
+        onError: (err) => {
+            if (toast.current !== null) {
+                toast.current.show({ severity: "error", summary: t('Fleet status'), detail: errorMessage(err) });
+            }
+        }
+    });
+
+    /**
+     * Status rows of the energy meters
+     */
+    const fleetStatus = fleetReadings?.map((readings) => meterStatus(readings, thresholds));
+
+    /**
+     * Freshness state column template
+     * @param row status row
+     */
+    const stateBodyTemplate = (row: MeterStatus) => {
+        return <Tag value={t(stateLabels[row.state])} severity={stateSeverity[row.state]} title={row.error} />;
+    }
+
+    /**
+     * Last reading column template
+     * @param row status row
+     */
+    const lastReadingBodyTemplate = (row: MeterStatus) => {
+        return row.lastReading ? t("{time} ({minutes} min ago)", { time: row.lastReading.format(dateTimeFormat), minutes: dayjs().diff(row.lastReading, "minute") }) : '-';
+    }
+
+    /**
+     * Channels without recent data column template
+     * @param row status row
+     */
+    const silentChannelsBodyTemplate = (row: MeterStatus) => {
+        return (
+            <div className="flex flex-wrap gap-1">
+                {row.silentChannels.map((item) => <Tag key={item.id} value={`${item.channel}: ${item.channel_name}`} severity="warning" />)}
+            </div>
+        );
+    }
+
+    /**
+     * Count of meters in a freshness state
+     * @param state the freshness state
+     */
+    const summary = (state: FreshnessState) => (fleetStatus ?? []).filter((item) => item.state === state).length;
+
+    return (
+        <div className="card">
+            <Toast ref={toast} />
+            <h2>{t("Fleet status")}</h2>
+            <div className="flex flex-wrap align-items-center gap-3 mb-3">
+                <label htmlFor="stale">{t("Stale after (min)")}</label>
+                <InputNumber inputId="stale" value={draft.stale} onValueChange={(event) => editThreshold("stale", event.value ?? null)} onBlur={applyThresholds} min={1} size={5} />
+                <label htmlFor="offline">{t("Offline after (min)")}</label>
+                <InputNumber inputId="offline" value={draft.offline} onValueChange={(event) => editThreshold("offline", event.value ?? null)} onBlur={applyThresholds} min={1} size={5} />
+                <label htmlFor="refresh">{t("Refresh (s)")}</label>
+                <InputNumber inputId="refresh" value={draft.refresh} onValueChange={(event) => editThreshold("refresh", event.value ?? null)} onBlur={applyThresholds} min={5} size={5} />
+                <span className="ml-auto">{t("Updated: {time}", { time: dataUpdatedAt ? dayjs(dataUpdatedAt).format("HH:mm:ss") : '-' })}</span>
+            </div>
+            <div className="flex gap-2 mb-3">
+                <Tag value={t("Online: {count}", { count: summary("online") })} severity="success" />
+                <Tag value={t("Stale: {count}", { count: summary("stale") })} severity="warning" />
+                <Tag value={t("Offline: {count}", { count: summary("offline") })} severity="danger" />
+                <Tag value={t("Disabled: {count}", { count: summary("disabled") })} severity="info" />
+            </div>
+            <DataTable value={fleetStatus ?? []} loading={isLoading} dataKey="energyMeter.id" tableStyle={{ minWidth: '50rem' }}>
+                <Column field="energyMeter.asset_name" header={t("Asset name")}></Column>
+                <Column field="energyMeter.ip_address" header={t("IP address")}></Column>
+                <Column header={t("State")} body={stateBodyTemplate}></Column>
+                <Column header={t("Last reading")} body={lastReadingBodyTemplate}></Column>
+                <Column header={t("Enabled channels without recent data")} body={silentChannelsBodyTemplate}></Column>
+            </DataTable>
+        </div>
+    )
+}
+
+export default Dashboard;
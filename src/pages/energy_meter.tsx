@@ -1,33 +1,44 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { DataTable, DataTableStateEvent, DataTableSelectionChangeEvent, DataTableValueArray } from 'primereact/datatable';
+import { DataTable, DataTableStateEvent, DataTableSelectionChangeEvent, DataTableValueArray, DataTableExpandedRows } from 'primereact/datatable';
 import { Column } from 'primereact/column';
 import { Toast } from "primereact/toast";
-import { useForm, Controller, FieldErrors } from "react-hook-form";
+import { useForm, Controller, FieldErrors, useWatch } from "react-hook-form";
 import { InputText } from 'primereact/inputtext';
 import { InputNumber } from "primereact/inputnumber";
 import { Checkbox } from 'primereact/checkbox';
 import { Dropdown } from "primereact/dropdown";
 import { Button } from "primereact/button";
 import { Dialog } from 'primereact/dialog';
-import { ConfirmDialog } from 'primereact/confirmdialog';
 import { classNames } from 'primereact/utils';
+import { FilterMatchMode } from 'primereact/api';
 import dayjs from "dayjs";
 import utc from 'dayjs/plugin/utc'
 import timezone from 'dayjs/plugin/timezone'
 import { zodResolver } from '@hookform/resolvers/zod';
-import * as z from 'zod';
+import { energyMeterFormSchema } from "../utils/Schemas";
+import ExportButtons from "../components/ExportButtons";
+import ConnectionTest, { ConnectionStatusTag, useConnectionTest } from "../components/ConnectionTest";
+import ImportWizard from "../components/ImportWizard";
+import MeterChannels from "../components/MeterChannels";
+import BulkActionDialog, { BulkAction } from "../components/BulkActionDialog";
+import TrashDialog from "../components/TrashDialog";
+import { booleanBodyTemplate, dropdownFilterTemplate, triStateFilterTemplate } from "../components/TableFilters";
+import { activeFilters, lazyListParams } from "../utils/LazyTable";
+import { useAuth } from "../components/AuthProvider";
+import { useTranslation } from "../components/LanguageProvider";
+import { ContextMenu } from "primereact/contextmenu";
+import { useNavigate, useParams } from "react-router-dom";
+import ChannelGenerator, { ChannelGeneratorOptions, ChannelGeneratorProgress, defaultChannelGeneratorOptions, generateChannels } from "../components/ChannelGenerator";
+import { BatchResult, runBatch } from "../utils/Batch";
+import { ExportColumn } from "../utils/Converter";
+import { energyMeterQuery } from "../utils/Queries";
+import { timeZones } from "../utils/DisplayZone";
+import { countEnergyMeters, createChannel, createdId, createEnergyMeter, deleteEnergyMeter, errorMessage, fetchEnergyMeterDependents, fetchEnergyMeters, MutationResult, restoreEnergyMeter, updateEnergyMeter } from "../utils/ApiClient";
 
 dayjs.extend(utc)
 dayjs.extend(timezone)
 
-declare namespace Intl {
-    type Key = 'calendar' | 'collation' | 'currency' | 'numberingSystem' | 'timeZone' | 'unit';
-
-    function supportedValuesOf(input: Key): string[];
-}
-
-const timeZonesList = Intl.supportedValuesOf('timeZone');
 const defaultTimeZone = dayjs.tz.guess();
 
 /**
@@ -43,15 +54,16 @@ interface FormValues {
 }
 
 /**
- * The Zod validation schema of form data
+ * The exported columns of power meters
  */
-const schema = z.object({
-    asset_name: z.string().nonempty(),
-    ip_address: z.string().ip("v4").nonempty(),
-    port: z.number().min(1),
-    time_zone: z.string().nonempty(),
-    enabled: z.boolean()
-});
+const exportColumns: ExportColumn[] = [
+    { field: "id", header: "Id" },
+    { field: "asset_name", header: "Asset name" },
+    { field: "ip_address", header: "IP address" },
+    { field: "port", header: "Port" },
+    { field: "time_zone", header: "Time zone" },
+    { field: "enabled", header: "Enabled" },
+];
 
 /**
  * The power mater component
@@ -59,6 +71,13 @@ const schema = z.object({
  */
 const EnergyMeter = () => {
     const queryClient = useQueryClient();
+    const { can } = useAuth();
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    /**
+     * Id of the energy meter opened by its URL
+     */
+    const { id: routeId } = useParams();
     /**
      * Lazy data model state
      */
@@ -70,7 +89,12 @@ const EnergyMeter = () => {
         sortField: "",
         sortOrder: 1,
         multiSortMeta: [],
-        filters: {},
+        filters: {
+            asset_name: { value: null, matchMode: FilterMatchMode.CONTAINS },
+            ip_address: { value: null, matchMode: FilterMatchMode.STARTS_WITH },
+            time_zone: { value: null, matchMode: FilterMatchMode.EQUALS },
+            enabled: { value: null, matchMode: FilterMatchMode.EQUALS },
+        },
     });
 
     /**
@@ -78,17 +102,45 @@ const EnergyMeter = () => {
      */
     const [editedRow, setEditedRow] = useState<EnergyMeterValues | null>(null);
     /**
-     * The selected row of power meter
+     * The selected rows of power meter
      */
-    const [selectedRow, setSelectedRow] = useState<EnergyMeterValues | null>(null);
+    const [selectedRows, setSelectedRows] = useState<EnergyMeterValues[]>([]);
     /**
      * Visibility of form editor dialog
      */
     const [visible, setVisible] = useState(false);
     /**
-     * Visibility of confirm dialog
+     * Bulk action waiting for confirmation
+     */
+    const [bulkAction, setBulkAction] = useState<BulkAction<EnergyMeterValues> | undefined>(undefined);
+    /**
+     * Dependent records of the deleted power meters are being counted
+     */
+    const [isCheckingDependents, setIsCheckingDependents] = useState(false);
+    /**
+     * Visibility of trash dialog
+     */
+    const [trashVisible, setTrashVisible] = useState(false);
+    /**
+     * Visibility of import wizard
+     */
+    const [importVisible, setImportVisible] = useState(false);
+    /**
+     * Expanded rows showing their channels
      */
-    const [confirmDialogVisible, setConfirmDialogVisible] = useState(false);
+    const [expandedRows, setExpandedRows] = useState<DataTableExpandedRows | undefined>(undefined);
+    /**
+     * Channel generator options of new power meter
+     */
+    const [generatorOptions, setGeneratorOptions] = useState<ChannelGeneratorOptions>(defaultChannelGeneratorOptions);
+    /**
+     * Progress of channel generation
+     */
+    const [generatorProgress, setGeneratorProgress] = useState<ChannelGeneratorProgress | undefined>(undefined);
+    /**
+     * Generated channels failed to create
+     */
+    const [generatorFailures, setGeneratorFailures] = useState<BatchResult<Omit<ChannelValues, "id">>[]>([]);
 
     /**
      * On page request of DataTable
@@ -105,11 +157,19 @@ const EnergyMeter = () => {
         setLazyState(event);
     }, []);
 
+    /**
+     * Sort on powermeter DataTable
+     */
+    const onSort = useCallback((event: DataTableStateEvent) => {
+        event.first = 0;
+        setLazyState(event);
+    }, []);
+
     /**
      * Selection changed event callback
      */
     const onSelectionChange = useCallback((e: DataTableSelectionChangeEvent<DataTableValueArray>) => {
-        setSelectedRow(e.value as EnergyMeterValues);
+        setSelectedRows(e.value as EnergyMeterValues[]);
     }, []);
 
     /**
@@ -118,7 +178,9 @@ const EnergyMeter = () => {
     const updatePage = () => {
         queryClient.invalidateQueries({ queryKey: ["energy_meter"] });
         queryClient.invalidateQueries({ queryKey: ["energy_metercount"] });
-        setSelectedRow(null);
+        queryClient.invalidateQueries({ queryKey: ["trash", "energy_meter"] });
+        queryClient.invalidateQueries({ queryKey: ["trashcount", "energy_meter"] });
+        setSelectedRows([]);
     };
 
     /**
@@ -126,15 +188,8 @@ const EnergyMeter = () => {
      */
     const { data: energy_meterValues, isLoading: isDataLoading } = useQuery({
         queryKey: ["energy_meter", lazyState],
-        queryFn: async () => {
-            const filters = encodeURIComponent(JSON.stringify(lazyState.filters));
-            const res = await fetch(`/api/admin/crud/energy_meter?first=${lazyState.first}&rowcount=${lazyState.rows}&filter=${filters}`);
-            let values = await res.json();
-            values.forEach((element: EnergyMeterValues, idx: number) => {
-                values[idx].enabled = values[idx].enabled ? true : false;
-            });
-            return values;
-        }
+        queryFn: () => fetchEnergyMeters(lazyListParams(lazyState)),
+        onError: (err) => show("error", errorMessage(err))
     });
 
     /**
@@ -142,14 +197,53 @@ const EnergyMeter = () => {
      */
     const { data: count, isLoading: isCountLoading } = useQuery<number>({
         queryKey: ["energy_metercount", lazyState],
-        queryFn: async () => {
-            const filters = encodeURIComponent(JSON.stringify(lazyState.filters));
-            const res = await fetch(`/api/admin/crud/energy_meter/count?filter=${filters}`);
-            const { count } = await res.json();
-            return count;
-        }
+        queryFn: () => countEnergyMeters(activeFilters(lazyState.filters)),
+        onError: (err) => show("error", errorMessage(err))
     });
 
+    /**
+     * Energy meter opened by its URL query
+     */
+    const { data: routeEnergyMeter } = useQuery({
+        ...energyMeterQuery(Number(routeId)),
+        enabled: routeId !== undefined,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Open the energy meter of the URL in the editor, back to the list when it does not exist or the role does not allow editing
+     */
+    useEffect(() => {
+        if (routeId === undefined || routeEnergyMeter === undefined) {
+            return;
+        }
+        if (routeEnergyMeter === null) {
+            show("warn", t("Energy meter {id} not found", { id: routeId }));
+            navigate('/energy_meter', { replace: true });
+            return;
+        }
+        if (!can("config:edit")) {
+            show("warn", t("Your role does not allow to edit energy meters."));
+            navigate('/energy_meter', { replace: true });
+            return;
+        }
+        setEditedRow(routeEnergyMeter);
+        setGeneratorProgress(undefined);
+        setGeneratorFailures([]);
+        setVisible(true);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [routeId, routeEnergyMeter]);
+
+    /**
+     * Close the editor, the URL of an opened energy meter goes back to the list
+     */
+    const closeEditor = () => {
+        setVisible(false);
+        if (routeId !== undefined) {
+            navigate('/energy_meter');
+        }
+    }
+
     /**
      * Toast reference
      */
@@ -158,7 +252,31 @@ const EnergyMeter = () => {
     /**
      * React hook form
      */
-    const { control, handleSubmit, setValue, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(schema) });
+    const { control, handleSubmit, setValue, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(energyMeterFormSchema) });
+
+    /**
+     * Address of the edited power meter
+     */
+    const [ip_address, port] = useWatch({ control, name: ["ip_address", "port"] });
+
+    /**
+     * Connection test of table rows
+     */
+    const connectionTest = useConnectionTest((message) => show("error", message));
+
+    /**
+     * Connection status and test button of a table row
+     * @param row the power meter
+     */
+    const connectionBodyTemplate = (row: EnergyMeterValues) => {
+        const testing = connectionTest.isLoading && connectionTest.variables?.ip_address === row.ip_address && connectionTest.variables?.port === row.port;
+        return (
+            <div className="flex align-items-center gap-2">
+                <ConnectionStatusTag target={row} />
+                <Button type="button" icon="pi pi-bolt" rounded text loading={testing} tooltip={t("Test connection")} onClick={() => connectionTest.mutate(row)} />
+            </div>
+        );
+    }
 
     /**
      * React hook form submit callback. Use for create and update RestAPI calls
@@ -175,33 +293,68 @@ const EnergyMeter = () => {
         };
 
         if (editedRow && editedRow.id) {
-            fetch('/api/admin/crud/energy_meter/' + editedRow.id, {
-                method: 'PUT',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify(params),
-            }).then((response) => { return response.json() }).then((data) => {
+            updateEnergyMeter(editedRow.id, params).then((data) => {
                 updatePage();
-                setVisible(false);
-                show("success", `Updated energymeter: ${JSON.stringify(data)}`);
-            }).catch((err) => show("error", err));
+                closeEditor();
+                show("success", t("Updated energymeter: {data}", { data: JSON.stringify(data) }));
+            }).catch((err) => show("error", errorMessage(err)));
         } else {
-            fetch('/api/admin/crud/energy_meter', {
-                method: 'POST',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify(params),
-            }).then((response) => { return response.json() }).then((data) => {
+            createEnergyMeter(params).then(async (data) => {
                 updatePage();
-                setVisible(false);
-                show('success', `Saved energymeter: ${JSON.stringify(data)}`);
-            }).catch((err) => show('error', err));
+                show('success', t("Saved energymeter: {data}", { data: JSON.stringify(data) }));
+                if (generatorOptions.generate) {
+                    // The meter exists from now on, the dialog must not create it again
+                    const id = await resolveCreatedId(data, params.ip_address).catch((err) => {
+                        closeEditor();
+                        show("warn", t("{error}. Add the channels in the expanded row of the energy meter.", { error: errorMessage(err) }));
+                        return undefined;
+                    });
+                    if (id === undefined) {
+                        return;
+                    }
+                    setEditedRow({ id, ...params });
+                    await provisionChannels(generateChannels(id, generatorOptions));
+                } else {
+                    closeEditor();
+                }
+            }).catch((err) => show('error', errorMessage(err)));
+        }
+    }
+
+    /**
+     * Id of the created power meter. Looked up by IP address when the backend does not report it.
+     * @param data response of create call
+     * @param ip_address IP address of the created power meter
+     */
+    const resolveCreatedId = async (data: MutationResult, ip_address: string) => {
+        const id = createdId(data);
+        if (id !== undefined) {
+            return id;
+        }
+        const created = await fetchEnergyMeters({ filters: { ip_address: ip_address } });
+        if (created.length === 0) {
+            throw new Error(t("Created energy meter {ip_address} not found, channels are not generated", { ip_address }));
+        }
+        return created[0].id;
+    }
+
+    /**
+     * Create channels one by one, keep the failed ones for retry
+     * @param channels the new channels
+     */
+    const provisionChannels = async (channels: Omit<ChannelValues, "id">[]) => {
+        setGeneratorFailures([]);
+        setGeneratorProgress({ done: 0, total: channels.length });
+        const results = await runBatch(channels, (channel) => createChannel(channel), (done, total) => setGeneratorProgress({ done, total }));
+        const failures = results.filter((result) => result.error !== undefined);
+        setGeneratorFailures(failures);
+        queryClient.invalidateQueries({ queryKey: ["channels"] });
+        queryClient.invalidateQueries({ queryKey: ["channelscount"] });
+        if (failures.length === 0) {
+            closeEditor();
+            show("success", t("Created {count} channels", { count: channels.length }));
+        } else {
+            show("warn", t("{count} of {total} channels could not be created", { count: failures.length, total: channels.length }));
         }
     }
 
@@ -212,7 +365,7 @@ const EnergyMeter = () => {
      */
     const show = (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => {
         if (toast.current !== null) {
-            toast.current.show({ severity: severity, summary: 'Form submit', detail: message });
+            toast.current.show({ severity: severity, summary: t('Form submit'), detail: message });
         }
     }
 
@@ -237,64 +390,132 @@ const EnergyMeter = () => {
     }, [editedRow, setValue]);
 
     /**
-     * Delete selected powermeter with RestAPI
-     */
-    const deleteSelectedRow = () => {
-        if (selectedRow) {
-            fetch('/api/admin/crud/energy_meter/' + selectedRow.id, {
-                method: 'DELETE',
-                credentials: "include",
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json'
-                },
-                cache: 'no-cache',
-                body: JSON.stringify({ action: 'delete' }),
-            }).then((response) => {
-                return response.json();
-            }).then(data => {
-                show("success", `Deleted energy_meter: ${JSON.stringify(data)}`);
-                updatePage();
-            }).catch((err) => show("error", err));
+     * Update fields of the selected power meters after confirmation
+     * @param title name of the action
+     * @param changed the changed fields
+     * @param change description of the change of a power meter
+     */
+    const bulkUpdate = (title: string, changed: Partial<Omit<EnergyMeterValues, "id">>, change: (row: EnergyMeterValues) => string) => {
+        setBulkAction({
+            title,
+            items: selectedRows,
+            itemLabel: (row) => `${row.asset_name} (${row.ip_address})`,
+            change,
+            operation: ({ id, ...row }) => updateEnergyMeter(id, { ...row, ...changed }),
+        });
+    }
+
+    /**
+     * Move the selected power meters into the trash after confirmation, warning about their channels and measurements
+     */
+    const bulkDelete = async () => {
+        setIsCheckingDependents(true);
+        const dependents = await Promise.all(selectedRows.map((row) => fetchEnergyMeterDependents(row.id).then(
+            (result) => t("{channels} channels and {measurements} measurements depend on it", { channels: result.channels, measurements: result.measurements }),
+            (err) => t("dependent records unknown: {error}", { error: errorMessage(err) })
+        )));
+        setIsCheckingDependents(false);
+        const items = selectedRows;
+        setBulkAction({
+            title: t("Delete"),
+            items,
+            itemLabel: (row) => `${row.asset_name} (${row.ip_address})`,
+            change: (row) => t("moved to the trash, {dependents}", { dependents: dependents[items.indexOf(row)] }),
+            operation: (row) => deleteEnergyMeter(row.id),
+            undo: (row) => restoreEnergyMeter(row.id),
+        });
+    }
+
+    /**
+     * Show a success message with an undo button
+     * @param message message to display
+     * @param undo called on undo
+     */
+    const showUndo = (message: string, undo: () => void) => {
+        if (toast.current !== null) {
+            toast.current.show({
+                severity: "success", summary: t('Form submit'), life: 10000, detail: (
+                    <div className="flex align-items-center justify-content-between gap-2">
+                        <span>{message}</span>
+                        <Button type="button" label={t("Undo")} icon="pi pi-undo" size="small" outlined onClick={() => {
+                            toast.current?.clear();
+                            undo();
+                        }} />
+                    </div>
+                )
+            });
         }
     }
 
+    /**
+     * Summary of a finished bulk action
+     * @param results results of the selected power meters
+     */
+    const onBulkDone = (results: BatchResult<EnergyMeterValues>[]) => {
+        const failed = results.filter((result) => result.error !== undefined).length;
+        const undo = bulkAction?.undo;
+        if (failed === 0 && undo) {
+            showUndo(t("{title}: {count} energy meters updated", { title: bulkAction?.title ?? "", count: results.length }), () => {
+                runBatch(results.map((result) => result.item), undo).then((undone) => {
+                    const undoFailed = undone.filter((result) => result.error !== undefined).length;
+                    show(undoFailed === 0 ? "success" : "warn", t("Undo: {count} of {total} energy meters restored", { count: undone.length - undoFailed, total: undone.length }));
+                    updatePage();
+                });
+            });
+        } else if (failed === 0) {
+            show("success", t("{title}: {count} energy meters updated", { title: bulkAction?.title ?? "", count: results.length }));
+        } else {
+            show("warn", t("{title}: {count} of {total} energy meters failed", { title: bulkAction?.title ?? "", count: failed, total: results.length }));
+        }
+        updatePage();
+    }
+
     /**
      * React hook form submition error handler
      * @param errors errors
      */
     const onSubmitError = (errors: FieldErrors<FormValues>) => {
         //console.log(errors);
-        show("error", "Please fill form as needed. Read tooltips on red marked fields.");
+        show("error", t("Please fill form as needed. Read tooltips on red marked fields."));
     }
 
     /**
-     * DataTable reference
+     * Row context menu reference
      */
-    const dt = useRef<DataTable<DataTableValueArray>>(null);
+    const contextMenu = useRef<ContextMenu>(null);
+    /**
+     * The row of opened context menu
+     */
+    const [contextMenuRow, setContextMenuRow] = useState<EnergyMeterValues | null>(null);
+    /**
+     * Row context menu items
+     */
+    const contextMenuItems = [
+        {
+            label: t('Audit log'), icon: 'pi pi-history', disabled: !can("audit:view"), command: () => {
+                if (contextMenuRow) {
+                    navigate(`/audit?entity=energy_meter&entity_id=${contextMenuRow.id}`);
+                }
+            }
+        },
+    ];
 
     /**
-     * Export measurements data to CSV
-     * @param selectionOnly export only selected data 
+     * DataTable reference
      */
-    const exportCSV = (selectionOnly: boolean) => {
-        if (dt && dt.current) {
-            const currentRef = dt.current;
-            currentRef.exportCSV({ selectionOnly });
-        }
-    };
+    const dt = useRef<DataTable<DataTableValueArray>>(null);
 
     const header = (
         <div className="flex align-items-center justify-content-end gap-2">
-            <Button type="button" icon="pi pi-file" rounded onClick={() => exportCSV(false)} data-pr-tooltip="CSV" />
+            <ExportButtons data={() => fetchEnergyMeters()} columns={exportColumns} filename="energy_meters" onError={(message) => show("error", message)} />
         </div>
     );
 
     return (
         <div className="card">
-            <h2>Energy meter</h2>
+            <h2>{t("Energy meter")}</h2>
             <Toast ref={toast} />
-            <Dialog header="Energy meter" visible={visible} onHide={() => setVisible(false)} style={{ width: '50vw' }}>
+            <Dialog header={t("Energy meter")} visible={visible} onHide={closeEditor} style={{ width: '50vw' }}>
                 <form onSubmit={handleSubmit(onSubmit, onSubmitError)} style={{ width: '100%' }}>
                     <Controller
                         name="asset_name"
@@ -304,10 +525,10 @@ const EnergyMeter = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Asset name: </label>
+                                        <label htmlFor={field.name}>{t("Asset name")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <InputText id={field.name} value={field.value || ''} tooltip={errors.asset_name?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
+                                        <InputText id={field.name} value={field.value || ''} tooltip={errors.asset_name?.message && t(errors.asset_name.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -321,10 +542,10 @@ const EnergyMeter = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>IP Address: </label>
+                                        <label htmlFor={field.name}>{t("IP address")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <InputText disabled={(editedRow !== undefined && editedRow !== null) && editedRow.id > -1} id={field.name} value={field.value || ''} tooltip={errors.ip_address?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
+                                        <InputText disabled={(editedRow !== undefined && editedRow !== null) && editedRow.id > -1} id={field.name} value={field.value || ''} tooltip={errors.ip_address?.message && t(errors.ip_address.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -338,10 +559,10 @@ const EnergyMeter = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Port: </label>
+                                        <label htmlFor={field.name}>{t("Port")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <InputNumber disabled={(editedRow !== undefined && editedRow !== null) && editedRow.id > -1} id={field.name} value={field.value} tooltip={errors.port?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onValueChange={(event) => field.onChange((event.target.value as number))} style={{ width: '100%' }} />
+                                        <InputNumber disabled={(editedRow !== undefined && editedRow !== null) && editedRow.id > -1} id={field.name} value={field.value} tooltip={errors.port?.message && t(errors.port.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onValueChange={(event) => field.onChange((event.target.value as number))} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -355,10 +576,10 @@ const EnergyMeter = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Time zone: </label>
+                                        <label htmlFor={field.name}>{t("Time zone")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <Dropdown id={field.name} value={field.value} tooltip={errors.time_zone?.message} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.target.value)} options={timeZonesList} placeholder="Select TimeZone" style={{ width: '100%' }} />
+                                        <Dropdown id={field.name} value={field.value} tooltip={errors.time_zone?.message && t(errors.time_zone.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.target.value)} options={timeZones()} placeholder={t("Select time zone")} style={{ width: '100%' }} />
                                     </div>
                                 </div>
                             </>
@@ -372,29 +593,56 @@ const EnergyMeter = () => {
                             <>
                                 <div className="grid align-items-baseline">
                                     <div className="col-12 mb-2 md:col-2 md:mb-0">
-                                        <label htmlFor={field.name}>Enabled: </label>
+                                        <label htmlFor={field.name}>{t("Enabled")}: </label>
                                     </div>
                                     <div className="col-12 md:col-10">
-                                        <Checkbox onChange={(event) => field.onChange(event.target.checked ? true : false)} tooltip={errors.enabled?.message} className={classNames({ 'p-invalid': fieldState.invalid })} checked={field.value}></Checkbox>
+                                        <Checkbox onChange={(event) => field.onChange(event.target.checked ? true : false)} tooltip={errors.enabled?.message && t(errors.enabled.message)} className={classNames({ 'p-invalid': fieldState.invalid })} checked={field.value}></Checkbox>
                                     </div>
                                 </div>
                             </>
                         )}
                     />
+                    <div className="grid align-items-baseline">
+                        <div className="col-12 mb-2 md:col-2 md:mb-0">
+                            <label>{t("Connection")}: </label>
+                        </div>
+                        <div className="col-12 md:col-10">
+                            <ConnectionTest target={{ ip_address, port }} onError={(message) => show("error", message)} />
+                        </div>
+                    </div>
+                    {(!editedRow || generatorProgress) && <div className="grid align-items-baseline">
+                        <div className="col-12 mb-2 md:col-2 md:mb-0">
+                            <label>{t("Channels")}: </label>
+                        </div>
+                        <div className="col-12 md:col-10">
+                            <ChannelGenerator value={generatorOptions} onChange={setGeneratorOptions} progress={generatorProgress} failures={generatorFailures}
+                                onRetry={() => provisionChannels(generatorFailures.map((failure) => failure.item))} />
+                        </div>
+                    </div>}
                     <div className='flex justify-content-end'>
-                        <Button label="Submit" type="submit" icon="pi pi-check" />
+                        <Button label={t("Submit")} type="submit" icon="pi pi-check" />
                     </div>
                 </form>
             </Dialog>
-            <ConfirmDialog visible={confirmDialogVisible} accept={deleteSelectedRow} message="Are you sure you want to delete item?"
-                header="Confirmation" icon="pi pi-exclamation-triangle" onHide={() => setConfirmDialogVisible(false)} />
+            <ImportWizard entity="energy_meter" visible={importVisible} onHide={() => setImportVisible(false)} />
+            <ContextMenu model={contextMenuItems} ref={contextMenu} onHide={() => setContextMenuRow(null)} />
+            <BulkActionDialog action={bulkAction} onHide={() => setBulkAction(undefined)} onDone={onBulkDone} />
+            <TrashDialog entity="energy_meter" visible={trashVisible} onHide={() => setTrashVisible(false)} columns={exportColumns.filter((column) => column.field !== "id")}
+                onRestored={updatePage} show={show} />
             <div className="card">
                 <DataTable value={energy_meterValues}
                     ref={dt}
                     header={header}
-                    selectionMode="single"
-                    selection={selectedRow}
+                    selectionMode="checkbox"
+                    selection={selectedRows}
                     onSelectionChange={onSelectionChange}
+                    contextMenuSelection={contextMenuRow ?? undefined}
+                    onContextMenuSelectionChange={(event) => setContextMenuRow(event.value as EnergyMeterValues)}
+                    onContextMenu={(event) => contextMenu.current?.show(event.originalEvent)}
+                    dataKey="id"
+                    expandedRows={expandedRows}
+                    onRowToggle={(event) => setExpandedRows(event.data as DataTableExpandedRows)}
+                    rowExpansionTemplate={(row: EnergyMeterValues) => <MeterChannels energyMeter={row} show={show} />}
                     first={lazyState.first}
                     paginator={true}
                     lazy={true}
@@ -405,29 +653,44 @@ const EnergyMeter = () => {
                     onFilter={onFilter}
                     filters={lazyState.filters}
                     filterDisplay="row"
+                    onSort={onSort}
+                    sortMode="multiple"
+                    multiSortMeta={lazyState.multiSortMeta}
+                    removableSort
                     tableStyle={{ minWidth: '50rem' }}
                 >
-                    <Column selectionMode="single" header="Select one"></Column>
-                    <Column field="asset_name" header="Asset name"></Column>
-                    <Column field="ip_address" header="IP address"></Column>
-                    <Column field="port" header="Port"></Column>
-                    <Column field="time_zone" header="Time zone"></Column>
-                    <Column field="enabled" header="Enabled"></Column>
+                    <Column expander style={{ width: '3rem' }}></Column>
+                    <Column selectionMode="multiple" headerStyle={{ width: '3rem' }}></Column>
+                    <Column field="asset_name" header={t("Asset name")} sortable filter filterPlaceholder={t("Search by name")} showFilterMenu={false}></Column>
+                    <Column field="ip_address" header={t("IP address")} sortable filter filterPlaceholder={t("IP prefix")} showFilterMenu={false}></Column>
+                    <Column field="port" header={t("Port")} sortable></Column>
+                    <Column field="time_zone" header={t("Time zone")} sortable filter filterElement={dropdownFilterTemplate(timeZones(), t("Any time zone"))} showFilterMenu={false}></Column>
+                    <Column field="enabled" header={t("Enabled")} sortable filter filterElement={triStateFilterTemplate} showFilterMenu={false} dataType="boolean" body={(row: EnergyMeterValues) => booleanBodyTemplate(row.enabled)}></Column>
+                    <Column header={t("Connection")} body={connectionBodyTemplate}></Column>
                 </DataTable>
             </div>
-            <div className='vertical-align-baseline'>
-                <Button label="New" icon="pi pi-check" onClick={() => {
-                    setSelectedRow(null);
+            {can("config:edit") && <div className='vertical-align-baseline'>
+                <Button label={t("New")} icon="pi pi-check" onClick={() => {
+                    setSelectedRows([]);
                     setEditedRow(null);
+                    setGeneratorOptions(defaultChannelGeneratorOptions);
+                    setGeneratorProgress(undefined);
+                    setGeneratorFailures([]);
                     setVisible(true);
                 }} />
-                <Button label="Modify" icon="pi pi-check" onClick={() => {
-                    setEditedRow(selectedRow);
-                    control._formValues['time_zone'] = defaultTimeZone;
-                    setVisible(true);
-                }} disabled={selectedRow && selectedRow.id ? false : true} />
-                <Button label="Delete" icon="pi pi-check" onClick={() => setConfirmDialogVisible(true)} disabled={selectedRow && selectedRow.id ? false : true} />
-            </div>
+                <Button label={t("Modify")} icon="pi pi-check" onClick={() => navigate(`/energy_meter/${selectedRows[0].id}`)} disabled={selectedRows.length !== 1} />
+                <Button label={t("Delete")} icon="pi pi-check" onClick={bulkDelete} loading={isCheckingDependents} disabled={selectedRows.length === 0} />
+                <Button label={t("Import")} icon="pi pi-upload" onClick={() => setImportVisible(true)} />
+                <Button label={t("Trash")} icon="pi pi-trash" outlined onClick={() => setTrashVisible(true)} />
+            </div>}
+            {can("config:edit") && selectedRows.length > 0 && <div className="flex flex-wrap align-items-center gap-2 mt-3">
+                <span>{t("{count} selected:", { count: selectedRows.length })}</span>
+                <Button label={t("Enable")} icon="pi pi-check-circle" outlined onClick={() => bulkUpdate(t("Enable"), { enabled: true }, (row) => `enabled: ${row.enabled} → true`)} />
+                <Button label={t("Disable")} icon="pi pi-times-circle" outlined onClick={() => bulkUpdate(t("Disable"), { enabled: false }, (row) => `enabled: ${row.enabled} → false`)} />
+                <Dropdown value={null} options={timeZones()} filter placeholder={t("Set time zone")}
+                    onChange={(event) => bulkUpdate(t("Set time zone"), { time_zone: event.value }, (row) => `time_zone: ${row.time_zone} → ${event.value}`)} />
+                <Button label={t("Clear selection")} icon="pi pi-times" text onClick={() => setSelectedRows([])} />
+            </div>}
         </div>
     )
 }
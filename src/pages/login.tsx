@@ -0,0 +1,35 @@
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Card } from "primereact/card";
+import LoginForm from "../components/LoginForm";
+import { useAuth } from "../components/AuthProvider";
+import { useTranslation } from "../components/LanguageProvider";
+
+/**
+ * The login page component
+ * @returns the Login ReactComponent
+ */
+const Login = () => {
+    const { user } = useAuth();
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    /**
+     * The page the user wanted to open before login
+     */
+    const from = location.state?.from ? `${location.state.from.pathname}${location.state.from.search ?? ''}` : '/';
+
+    if (user) {
+        return <Navigate to={from} replace />;
+    }
+
+    return (
+        <div className="flex justify-content-center mt-5">
+            <Card title="EnergyMeter Admin" subTitle={t("Log in")} style={{ width: '25rem' }}>
+                <LoginForm onLogin={() => navigate(from, { replace: true })} />
+            </Card>
+        </div>
+    )
+}
+
+export default Login;
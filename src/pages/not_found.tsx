@@ -0,0 +1,23 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "primereact/button";
+import { useTranslation } from "../components/LanguageProvider";
+
+/**
+ * The page of unknown URLs
+ * @returns the NotFound ReactComponent
+ */
+const NotFound = () => {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    return (
+        <div className="card">
+            <h2>{t("Page not found")}</h2>
+            <p>{t("There is no page at {path}.", { path: location.pathname })}</p>
+            <Button label={t("Home")} icon="pi pi-home" onClick={() => navigate('/')} />
+        </div>
+    )
+}
+
+export default NotFound;
@@ -0,0 +1,222 @@
+import { useCallback, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { DataTable, DataTableStateEvent, DataTableExpandedRows } from 'primereact/datatable';
+import { Column } from 'primereact/column';
+import { Toast } from "primereact/toast";
+import { Button } from "primereact/button";
+import { ConfirmDialog, confirmDialog } from 'primereact/confirmdialog';
+import { Tag } from "primereact/tag";
+import dayjs from "dayjs";
+import PresetDialog from "../components/PresetDialog";
+import RunHistory from "../components/RunHistory";
+import { lazyListParams } from "../utils/LazyTable";
+import { energyMetersQuery } from "../utils/Queries";
+import { presetSearchParams, rangeLabel } from "../utils/Presets";
+import { granularityLabel } from "../utils/Granularity";
+import { useTranslation } from "../components/LanguageProvider";
+import { countReportPresets, deleteReportPreset, errorMessage, fetchReportPresets, runReportPreset } from "../utils/ApiClient";
+
+/**
+ * Display names of schedule recurrences
+ */
+const frequencyLabels: Record<ReportSchedule["frequency"], string> = {
+    daily: "Daily",
+    weekly: "Weekly",
+    monthly: "Monthly",
+};
+
+/**
+ * The report presets component
+ * @returns the Presets ReactComponent
+ */
+const Presets = () => {
+    const queryClient = useQueryClient();
+    const navigate = useNavigate();
+    const { t, dateTimeFormat } = useTranslation();
+    /**
+     * Lazy data model state
+     */
+    const [lazyState, setLazyState] = useState<DataTableStateEvent>({
+        first: 0,
+        rows: 10,
+        page: 0,
+        pageCount: 0,
+        sortField: "",
+        sortOrder: 1,
+        multiSortMeta: [],
+        filters: {},
+    });
+
+    /**
+     * The edited preset, the preset dialog is open while set
+     */
+    const [editedRow, setEditedRow] = useState<ReportPreset | undefined>(undefined);
+    /**
+     * Expanded rows showing their run history
+     */
+    const [expandedRows, setExpandedRows] = useState<DataTableExpandedRows | undefined>(undefined);
+
+    /**
+     * On page request of DataTable
+     */
+    const onPage = useCallback((event: DataTableStateEvent) => {
+        setLazyState(event);
+    }, []);
+
+    /**
+     * Toast reference
+     */
+    const toast = useRef<Toast>(null);
+
+    /**
+     * Show message
+     * @param severity severity of message
+     * @param message message to display
+     */
+    const show = (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => {
+        if (toast.current !== null) {
+            toast.current.show({ severity: severity, summary: t('Report presets'), detail: message });
+        }
+    }
+
+    /**
+     * Presets data query
+     */
+    const { data: presets, isLoading: isDataLoading } = useQuery({
+        queryKey: ["report_presets", lazyState],
+        queryFn: () => fetchReportPresets(lazyListParams(lazyState)),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Presets count query
+     */
+    const { data: count, isLoading: isCountLoading } = useQuery<number>({
+        queryKey: ["report_presetscount"],
+        queryFn: () => countReportPresets(),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Power meters query, shared with the other pages through the query cache
+     */
+    const { data: energy_meterValues } = useQuery({
+        ...energyMetersQuery,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Reload DataTable and count
+     */
+    const updatePage = () => {
+        queryClient.invalidateQueries({ queryKey: ["report_presets"] });
+        queryClient.invalidateQueries({ queryKey: ["report_presetscount"] });
+    };
+
+    /**
+     * Generate and deliver the export file of a preset now
+     * @param preset the report preset
+     */
+    const deliverNow = (preset: ReportPreset) => {
+        runReportPreset(preset.id).then(() => {
+            show("success", t("Started run of {name}", { name: preset.name }));
+            queryClient.invalidateQueries({ queryKey: ["report_runs", preset.id] });
+            queryClient.invalidateQueries({ queryKey: ["report_runscount", preset.id] });
+            setExpandedRows({ ...expandedRows, [preset.id]: true });
+        }).catch((err) => show("error", errorMessage(err)));
+    }
+
+    /**
+     * Delete a preset after confirmation
+     * @param preset the report preset
+     */
+    const deletePreset = (preset: ReportPreset) => {
+        confirmDialog({
+            header: t("Confirmation"),
+            icon: "pi pi-exclamation-triangle",
+            message: t("Delete {name} with its run history?", { name: preset.name }),
+            accept: () => deleteReportPreset(preset.id).then(() => {
+                show("success", t("Deleted report preset: {name}", { name: preset.name }));
+                updatePage();
+            }).catch((err) => show("error", errorMessage(err))),
+        });
+    }
+
+    /**
+     * Energy meters column template
+     * @param row the report preset
+     */
+    const metersBodyTemplate = (row: ReportPreset) => {
+        const names = row.ip_addresses.map((ipAddress) => (energy_meterValues ?? []).find((item) => item.ip_address === ipAddress)?.asset_name ?? ipAddress);
+        return row.channels.length > 0 ? t("{meters} ({count} channels)", { meters: names.join(", "), count: row.channels.length }) : names.join(", ");
+    }
+
+    /**
+     * Schedule column template
+     * @param row the report preset
+     */
+    const scheduleBodyTemplate = (row: ReportPreset) => {
+        if (!row.schedule) {
+            return <Tag value={t("Manual")} severity="info" />;
+        }
+        return (
+            <div className="flex flex-column">
+                <span>{t("{frequency}, {format} to {recipients}", { frequency: t(frequencyLabels[row.schedule.frequency]), format: row.schedule.format.toUpperCase(), recipients: row.schedule.recipients.join(", ") })}</span>
+                {row.next_run_at && <small>{t("Next run: {time}", { time: dayjs(row.next_run_at).format(dateTimeFormat) })}</small>}
+            </div>
+        );
+    }
+
+    /**
+     * Actions column template
+     * @param row the report preset
+     */
+    const actionsBodyTemplate = (row: ReportPreset) => {
+        return (
+            <div className="flex gap-1">
+                <Button type="button" icon="pi pi-play" rounded text tooltip={t("Run report")} onClick={() => navigate(`/?${presetSearchParams(row).toString()}`)} />
+                <Button type="button" icon="pi pi-send" rounded text tooltip={t("Generate and deliver export now")} onClick={() => deliverNow(row)} />
+                <Button type="button" icon="pi pi-pencil" rounded text tooltip={t("Edit")} onClick={() => setEditedRow(row)} />
+                <Button type="button" icon="pi pi-trash" rounded text severity="danger" tooltip={t("Delete")} onClick={() => deletePreset(row)} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="card">
+            <h2>{t("Report presets")}</h2>
+            <Toast ref={toast} />
+            <ConfirmDialog />
+            <PresetDialog visible={editedRow !== undefined} preset={editedRow} onHide={() => setEditedRow(undefined)}
+                onSaved={(message) => show("success", message)} onError={(message) => show("error", message)} />
+            <div className="card">
+                <DataTable value={presets}
+                    dataKey="id"
+                    expandedRows={expandedRows}
+                    onRowToggle={(event) => setExpandedRows(event.data as DataTableExpandedRows)}
+                    rowExpansionTemplate={(row: ReportPreset) => <RunHistory preset={row} show={show} />}
+                    first={lazyState.first}
+                    paginator={true}
+                    lazy={true}
+                    rows={10}
+                    totalRecords={count ?? 0}
+                    onPage={onPage}
+                    loading={isDataLoading || isCountLoading}
+                    emptyMessage={t("No saved presets, save one on the Home page")}
+                    tableStyle={{ minWidth: '50rem' }}
+                >
+                    <Column expander style={{ width: '3rem' }}></Column>
+                    <Column field="name" header={t("Name")}></Column>
+                    <Column field="ip_addresses" header={t("Energy meters")} body={metersBodyTemplate}></Column>
+                    <Column field="details" header={t("Details")} body={(row: ReportPreset) => t(granularityLabel(row.details))}></Column>
+                    <Column field="date_range" header={t("Period")} body={(row: ReportPreset) => t(rangeLabel(row.date_range))}></Column>
+                    <Column field="schedule" header={t("Schedule")} body={scheduleBodyTemplate}></Column>
+                    <Column header={t("Actions")} body={actionsBodyTemplate}></Column>
+                </DataTable>
+            </div>
+        </div>
+    )
+}
+
+export default Presets;
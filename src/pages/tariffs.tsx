@@ -0,0 +1,491 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { DataTable, DataTableStateEvent, DataTableSelectionChangeEvent, DataTableValueArray } from 'primereact/datatable';
+import { Column } from 'primereact/column';
+import { Toast } from "primereact/toast";
+import { useForm, Controller, FieldErrors, useFieldArray, useWatch } from "react-hook-form";
+import { InputText } from 'primereact/inputtext';
+import { InputNumber } from "primereact/inputnumber";
+import { Dropdown } from "primereact/dropdown";
+import { MultiSelect } from "primereact/multiselect";
+import { SelectButton } from "primereact/selectbutton";
+import { Calendar } from "primereact/calendar";
+import { Button } from "primereact/button";
+import { Dialog } from 'primereact/dialog';
+import { ConfirmDialog } from 'primereact/confirmdialog';
+import { Tag } from "primereact/tag";
+import { classNames } from 'primereact/utils';
+import dayjs from "dayjs";
+import { zodResolver } from '@hookform/resolvers/zod';
+import { tariffFormSchema } from "../utils/Schemas";
+import { useAuth } from "../components/AuthProvider";
+import { lazyListParams } from "../utils/LazyTable";
+import { channelsOfEnergyMetersQuery, energyMetersQuery } from "../utils/Queries";
+import { formatCost } from "../utils/Tariff";
+import { countTariffs, createTariff, deleteTariff, errorMessage, fetchTariffs, updateTariff } from "../utils/ApiClient";
+import { useTranslation } from "../components/LanguageProvider";
+
+const currencyList = Intl.supportedValuesOf('currency');
+
+/**
+ * The tariff types
+ */
+const tariffTypes = [{ label: 'Flat', value: 'flat' }, { label: 'Time-of-use', value: 'tou' }];
+
+/**
+ * The days of week of tariff bands
+ */
+const weekDays = [
+    { label: 'Mon', value: 1 },
+    { label: 'Tue', value: 2 },
+    { label: 'Wed', value: 3 },
+    { label: 'Thu', value: 4 },
+    { label: 'Fri', value: 5 },
+    { label: 'Sat', value: 6 },
+    { label: 'Sun', value: 0 },
+];
+
+/**
+ * The input form objects
+ */
+interface FormValues {
+    name: string;
+    type: "flat" | "tou";
+    currency: string;
+    rate: number;
+    bands: TariffBand[];
+    valid_from: Date;
+    valid_to: Date | null;
+    energy_meter_id: number | null;
+    channel_id: number | null;
+}
+
+/**
+ * A new band of time-of-use tariffs
+ */
+const newBand: TariffBand = { name: 'Peak', rate: 0, start_time: '07:00', end_time: '22:00', days: [1, 2, 3, 4, 5] };
+
+/**
+ * The tariffs component
+ * @returns the Tariffs ReactComponent
+ */
+const Tariffs = () => {
+    const queryClient = useQueryClient();
+    const { can } = useAuth();
+    const { t, dateFormat } = useTranslation();
+    /**
+     * Lazy data model state
+     */
+    const [lazyState, setLazyState] = useState<DataTableStateEvent>({
+        first: 0,
+        rows: 10,
+        page: 0,
+        pageCount: 0,
+        sortField: "",
+        sortOrder: 1,
+        multiSortMeta: [],
+        filters: {},
+    });
+
+    /**
+     * The edited row of tariff
+     */
+    const [editedRow, setEditedRow] = useState<TariffValues | null>(null);
+    /**
+     * The selected row of tariff
+     */
+    const [selectedRow, setSelectedRow] = useState<TariffValues | null>(null);
+    /**
+     * Visibility of form editor dialog
+     */
+    const [visible, setVisible] = useState(false);
+    /**
+     * Visibility of confirm dialog
+     */
+    const [confirmDialogVisible, setConfirmDialogVisible] = useState(false);
+
+    /**
+     * On page request of DataTable
+     */
+    const onPage = useCallback((event: DataTableStateEvent) => {
+        setLazyState(event);
+    }, []);
+
+    /**
+     * Sort on tariffs DataTable
+     */
+    const onSort = useCallback((event: DataTableStateEvent) => {
+        event.first = 0;
+        setLazyState(event);
+    }, []);
+
+    /**
+     * Selection changed event callback
+     */
+    const onSelectionChange = useCallback((e: DataTableSelectionChangeEvent<DataTableValueArray>) => {
+        setSelectedRow(e.value as TariffValues);
+    }, []);
+
+    /**
+     * Reload DataTable and count
+     */
+    const updatePage = () => {
+        queryClient.invalidateQueries({ queryKey: ["tariffs"] });
+        queryClient.invalidateQueries({ queryKey: ["tariffscount"] });
+        setSelectedRow(null);
+    };
+
+    /**
+     * Tariffs data query
+     */
+    const { data: tariffValues, isLoading: isDataLoading } = useQuery({
+        queryKey: ["tariffs", lazyState],
+        queryFn: () => fetchTariffs(lazyListParams(lazyState)),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Tariffs count query
+     */
+    const { data: count, isLoading: isCountLoading } = useQuery<number>({
+        queryKey: ["tariffscount"],
+        queryFn: () => countTariffs(),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Power meters query, shared with the other pages through the query cache
+     */
+    const { data: energy_meterValues } = useQuery({
+        ...energyMetersQuery,
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Toast reference
+     */
+    const toast = useRef<Toast>(null);
+
+    /**
+     * React hook form
+     */
+    const { control, handleSubmit, reset, setValue, formState: { errors } } = useForm<FormValues>({ resolver: zodResolver(tariffFormSchema) });
+
+    /**
+     * Time-of-use bands of the edited tariff
+     */
+    const { fields: bandFields, append: appendBand, remove: removeBand } = useFieldArray({ control, name: "bands" });
+
+    /**
+     * Type and energy meter of the edited tariff
+     */
+    const [type, energyMeterId] = useWatch({ control, name: ["type", "energy_meter_id"] });
+
+    /**
+     * Channels of the assigned power meters, to show channel names in the table and in the form
+     */
+    const meterIds = Array.from(new Set([...(tariffValues ?? []).map((tariff) => tariff.energy_meter_id), energyMeterId ?? undefined]
+        .filter((id): id is number => id !== undefined))).sort((a, b) => a - b);
+    const { data: channels } = useQuery({
+        ...channelsOfEnergyMetersQuery(meterIds),
+        onError: (err) => show("error", errorMessage(err))
+    });
+
+    /**
+     * Show message
+     * @param severity severity of message
+     * @param message message to display
+     */
+    const show = (severity: "success" | "info" | "warn" | "error" | undefined, message: string) => {
+        if (toast.current !== null) {
+            toast.current.show({ severity: severity, summary: t('Form submit'), detail: message });
+        }
+    }
+
+    /**
+     * EditedRow useEffect
+     */
+    useEffect(() => {
+        if (editedRow && editedRow.id) {
+            reset({
+                name: editedRow.name,
+                type: editedRow.type,
+                currency: editedRow.currency,
+                rate: editedRow.rate,
+                bands: editedRow.bands,
+                valid_from: dayjs(editedRow.valid_from).toDate(),
+                valid_to: editedRow.valid_to ? dayjs(editedRow.valid_to).toDate() : null,
+                energy_meter_id: editedRow.energy_meter_id ?? null,
+                channel_id: editedRow.channel_id ?? null,
+            });
+        } else {
+            reset({
+                name: '',
+                type: 'flat',
+                currency: 'HUF',
+                rate: 0,
+                bands: [],
+                valid_from: dayjs().startOf("year").toDate(),
+                valid_to: null,
+                energy_meter_id: null,
+                channel_id: null,
+            });
+        }
+    }, [editedRow, reset]);
+
+    /**
+     * React hook form submit callback. Use for create and update RestAPI calls
+     *
+     * @param data submited data values
+     */
+    const onSubmit = (data: FormValues) => {
+        const params = {
+            name: data.name,
+            type: data.type,
+            currency: data.currency,
+            rate: data.rate,
+            bands: data.type === "tou" ? data.bands : [],
+            valid_from: dayjs(data.valid_from).format("YYYY-MM-DD"),
+            valid_to: data.valid_to ? dayjs(data.valid_to).format("YYYY-MM-DD") : null,
+            energy_meter_id: data.energy_meter_id,
+            channel_id: data.energy_meter_id !== null ? data.channel_id : null,
+        };
+
+        if (editedRow && editedRow.id) {
+            updateTariff(editedRow.id, params).then(() => {
+                updatePage();
+                setVisible(false);
+                show("success", t("Updated tariff: {name}", { name: params.name }));
+            }).catch((err) => show("error", errorMessage(err)));
+        } else {
+            createTariff(params).then(() => {
+                updatePage();
+                setVisible(false);
+                show('success', t("Saved tariff: {name}", { name: params.name }));
+            }).catch((err) => show('error', errorMessage(err)));
+        }
+    }
+
+    /**
+     * React hook form submition error handler
+     * @param errors errors
+     */
+    const onSubmitError = (errors: FieldErrors<FormValues>) => {
+        show("error", t("Please fill form as needed. Read tooltips on red marked fields."));
+    }
+
+    /**
+     * Delete selected tariff with RestAPI
+     */
+    const deleteSelectedRow = () => {
+        if (selectedRow) {
+            deleteTariff(selectedRow.id).then(() => {
+                show("success", t("Deleted tariff: {name}", { name: selectedRow.name }));
+                updatePage();
+            }).catch((err) => show("error", errorMessage(err)));
+        }
+    }
+
+    /**
+     * Assignment column template
+     * @param row the tariff
+     */
+    const assignmentBodyTemplate = (row: TariffValues) => {
+        if (row.energy_meter_id === undefined) {
+            return <Tag value={t("Default")} severity="info" />;
+        }
+        const energyMeter = (energy_meterValues ?? []).find((item) => item.id === row.energy_meter_id);
+        const channel = (channels ?? []).find((item) => item.id === row.channel_id);
+        return `${energyMeter?.asset_name ?? row.energy_meter_id}${row.channel_id !== undefined ? ` / ${channel?.channel_name ?? row.channel_id}` : ''}`;
+    }
+
+    /**
+     * Rates column template
+     * @param row the tariff
+     */
+    const ratesBodyTemplate = (row: TariffValues) => {
+        return (
+            <div className="flex flex-column">
+                <span>{t(row.type === "tou" ? "Base" : "Flat")}: {formatCost(row.rate, row.currency)}</span>
+                {row.type === "tou" && row.bands.map((band, index) => (
+                    <span key={index}>{band.name} {band.start_time}-{band.end_time} {weekDays.filter((day) => band.days.includes(day.value)).map((day) => t(day.label)).join(",")}: {formatCost(band.rate, row.currency)}</span>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div className="card">
+            <h2>{t("Tariffs")}</h2>
+            <Toast ref={toast} />
+            <Dialog header={t("Tariff")} visible={visible} onHide={() => setVisible(false)} style={{ width: '50vw' }}>
+                <form onSubmit={handleSubmit(onSubmit, onSubmitError)} style={{ width: '100%' }}>
+                    <Controller
+                        name="name"
+                        control={control}
+                        render={({ field, fieldState }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-2 md:mb-0">
+                                    <label htmlFor={field.name}>{t("Name:")} </label>
+                                </div>
+                                <div className="col-12 md:col-10">
+                                    <InputText id={field.name} value={field.value || ''} tooltip={errors.name?.message && t(errors.name.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={field.onChange} style={{ width: '100%' }} />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    <Controller
+                        name="type"
+                        control={control}
+                        render={({ field }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-2 md:mb-0">
+                                    <label htmlFor={field.name}>{t("Type:")} </label>
+                                </div>
+                                <div className="col-12 md:col-10">
+                                    <SelectButton id={field.name} value={field.value} onChange={(event) => event.value && field.onChange(event.value)} options={tariffTypes.map((item) => ({ ...item, label: t(item.label) }))} optionLabel="label" optionValue="value" />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    <Controller
+                        name="currency"
+                        control={control}
+                        render={({ field, fieldState }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-2 md:mb-0">
+                                    <label htmlFor={field.name}>{t("Currency:")} </label>
+                                </div>
+                                <div className="col-12 md:col-10">
+                                    <Dropdown id={field.name} value={field.value} tooltip={errors.currency?.message && t(errors.currency.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onChange={(event) => field.onChange(event.value)} options={currencyList} filter placeholder={t("Select currency")} style={{ width: '100%' }} />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    <Controller
+                        name="rate"
+                        control={control}
+                        render={({ field, fieldState }) => (
+                            <div className="grid align-items-baseline">
+                                <div className="col-12 mb-2 md:col-2 md:mb-0">
+                                    <label htmlFor={field.name}>{t(type === "tou" ? "Base rate:" : "Rate:")} </label>
+                                </div>
+                                <div className="col-12 md:col-10">
+                                    <InputNumber id={field.name} value={field.value} tooltip={errors.rate?.message && t(errors.rate.message)} className={classNames({ 'p-invalid': fieldState.invalid })} onValueChange={(event) => field.onChange(event.value ?? 0)} minFractionDigits={0} maxFractionDigits={4} min={0} style={{ width: '100%' }} />
+                                </div>
+                            </div>
+                        )}
+                    />
+                    {type === "tou" && <div className="grid align-items-baseline">
+                        <div className="col-12 mb-2 md:col-2 md:mb-0">
+                            <label>{t("Bands:")} </label>
+                        </div>
+                        <div className="col-12 md:col-10 flex flex-column gap-2">
+                            {bandFields.map((band, index) => (
+                                <div key={band.id} className="flex flex-wrap align-items-center gap-2">
+                                    <Controller name={`bands.${index}.name`} control={control} render={({ field, fieldState }) => (
+                                        <InputText value={field.value} onChange={field.onChange} placeholder={t("Name")} size={8} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                                    )} />
+                                    <Controller name={`bands.${index}.start_time`} control={control} render={({ field, fieldState }) => (
+                                        <InputText value={field.value} onChange={field.onChange} placeholder="HH:mm" size={5} tooltip={fieldState.error?.message && t(fieldState.error.message)} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                                    )} />
+                                    <Controller name={`bands.${index}.end_time`} control={control} render={({ field, fieldState }) => (
+                                        <InputText value={field.value} onChange={field.onChange} placeholder="HH:mm" size={5} tooltip={fieldState.error?.message && t(fieldState.error.message)} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                                    )} />
+                                    <Controller name={`bands.${index}.days`} control={control} render={({ field, fieldState }) => (
+                                        <MultiSelect value={field.value} onChange={(event) => field.onChange(event.value)} options={weekDays.map((item) => ({ ...item, label: t(item.label) }))} placeholder={t("Days")} maxSelectedLabels={7} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                                    )} />
+                                    <Controller name={`bands.${index}.rate`} control={control} render={({ field, fieldState }) => (
+                                        <InputNumber value={field.value} onValueChange={(event) => field.onChange(event.value ?? 0)} placeholder={t("Rate")} minFractionDigits={0} maxFractionDigits={4} min={0} size={6} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                                    )} />
+                                    <Button type="button" icon="pi pi-trash" rounded text severity="danger" onClick={() => removeBand(index)} />
+                                </div>
+                            ))}
+                            <div>
+                                <Button type="button" label={t("Add band")} icon="pi pi-plus" outlined onClick={() => appendBand(newBand)} />
+                                {errors.bands?.message && <small className="p-error ml-2">{t(errors.bands.message)}</small>}
+                            </div>
+                        </div>
+                    </div>}
+                    <div className="grid align-items-baseline">
+                        <div className="col-12 mb-2 md:col-2 md:mb-0">
+                            <label>{t("Valid:")} </label>
+                        </div>
+                        <div className="col-12 md:col-10 flex gap-2">
+                            <Controller name="valid_from" control={control} render={({ field, fieldState }) => (
+                                <Calendar value={field.value} onChange={(event) => field.onChange(event.value as Date)} placeholder={t("From")} tooltip={errors.valid_from?.message && t(errors.valid_from.message)} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                            )} />
+                            <Controller name="valid_to" control={control} render={({ field, fieldState }) => (
+                                <Calendar value={field.value} onChange={(event) => field.onChange((event.value as Date | null) ?? null)} placeholder={t("Until revoked")} showButtonBar tooltip={errors.valid_to?.message && t(errors.valid_to.message)} className={classNames({ 'p-invalid': fieldState.invalid })} />
+                            )} />
+                        </div>
+                    </div>
+                    <div className="grid align-items-baseline">
+                        <div className="col-12 mb-2 md:col-2 md:mb-0">
+                            <label>{t("Assigned to:")} </label>
+                        </div>
+                        <div className="col-12 md:col-10 flex gap-2">
+                            <Controller name="energy_meter_id" control={control} render={({ field }) => (
+                                <Dropdown value={field.value} onChange={(event) => {
+                                    field.onChange(event.value ?? null);
+                                    setValue("channel_id", null);
+                                }} options={energy_meterValues} optionLabel="asset_name" optionValue="id" placeholder={t("All energy meters")} showClear filter />
+                            )} />
+                            <Controller name="channel_id" control={control} render={({ field }) => (
+                                <Dropdown value={field.value} onChange={(event) => field.onChange(event.value ?? null)} disabled={energyMeterId === null}
+                                    options={(channels ?? []).filter((item) => item.energy_meter_id === energyMeterId)} optionLabel="channel_name" optionValue="id" placeholder={t("All channels")} showClear />
+                            )} />
+                        </div>
+                    </div>
+                    <div className='flex justify-content-end'>
+                        <Button label={t("Submit")} type="submit" icon="pi pi-check" />
+                    </div>
+                </form>
+            </Dialog>
+            <ConfirmDialog visible={confirmDialogVisible} accept={deleteSelectedRow} message={t("Are you sure you want to delete item?")}
+                header={t("Confirmation")} icon="pi pi-exclamation-triangle" onHide={() => setConfirmDialogVisible(false)} />
+            <div className="card">
+                <DataTable value={tariffValues}
+                    selectionMode="single"
+                    selection={selectedRow ?? undefined}
+                    onSelectionChange={onSelectionChange}
+                    dataKey="id"
+                    first={lazyState.first}
+                    paginator={true}
+                    lazy={true}
+                    rows={10}
+                    totalRecords={count ?? 0}
+                    onPage={onPage}
+                    loading={isDataLoading || isCountLoading}
+                    onSort={onSort}
+                    sortMode="multiple"
+                    multiSortMeta={lazyState.multiSortMeta}
+                    removableSort
+                    tableStyle={{ minWidth: '50rem' }}
+                >
+                    <Column selectionMode="single" header={t("Select one")}></Column>
+                    <Column field="name" header={t("Name")} sortable></Column>
+                    <Column field="type" header={t("Type")} sortable body={(row: TariffValues) => t(tariffTypes.find((item) => item.value === row.type)?.label ?? row.type)}></Column>
+                    <Column header={t("Rates")} body={ratesBodyTemplate}></Column>
+                    <Column field="valid_from" header={t("Valid from")} sortable body={(row: TariffValues) => dayjs(row.valid_from).format(dateFormat)}></Column>
+                    <Column field="valid_to" header={t("Valid to")} sortable body={(row: TariffValues) => row.valid_to ? dayjs(row.valid_to).format(dateFormat) : '∞'}></Column>
+                    <Column field="energy_meter_id" header={t("Assigned to")} body={assignmentBodyTemplate}></Column>
+                </DataTable>
+            </div>
+            {can("config:edit") && <div className='vertical-align-baseline'>
+                <Button label={t("New")} icon="pi pi-check" onClick={() => {
+                    setSelectedRow(null);
+                    setEditedRow(null);
+                    setVisible(true);
+                }} />
+                <Button label={t("Modify")} icon="pi pi-check" onClick={() => {
+                    setEditedRow(selectedRow);
+                    setVisible(true);
+                }} disabled={selectedRow && selectedRow.id ? false : true} />
+                <Button label={t("Delete")} icon="pi pi-check" onClick={() => setConfirmDialogVisible(true)} disabled={selectedRow && selectedRow.id ? false : true} />
+            </div>}
+        </div>
+    )
+}
+
+export default Tariffs;
@@ -2,11 +2,18 @@
  * The input form objects
  */
 interface FormValues {
-    fromDate: string;
-    toDate: string;
-    ipAddress: string;
-    channel: number;
+    fromDate: Date;
+    toDate: Date;
+    ipAddresses: string[];
+    /**
+     * Selected channels as "ip_address:channel" keys, all channels of a meter when none of them selected
+     */
+    channels: string[];
     details: string;
+    /**
+     * Filling of missing intervals, the report has the received rows only without it
+     */
+    gapFill?: import("./utils/GapFill").GapFill;
 }
 
 interface EnergyMeterValues {
@@ -16,6 +23,10 @@ interface EnergyMeterValues {
     port: number,
     time_zone: string,
     enabled: boolean,
+    /**
+     * Time of moving into the trash, only set on trashed rows
+     */
+    deleted_at?: string,
 }
 
 interface ChannelValues {
@@ -24,6 +35,10 @@ interface ChannelValues {
     channel: number,
     channel_name: string,
     enabled: boolean,
+    /**
+     * Time of moving into the trash, only set on trashed rows
+     */
+    deleted_at?: string,
 }
 
 interface RecElement {
@@ -38,3 +53,223 @@ interface RecElement {
     from_local_time?: string,
     to_local_time?: string,
 }
+
+/**
+ * Measurements report row merged from several energy meters
+ */
+interface ReportRow extends Omit<RecElement, "measured_value"> {
+    /**
+     * Null on filled intervals left empty
+     */
+    measured_value: number | null,
+    asset_name: string,
+    ip_address: string,
+    channel_name: string,
+    /**
+     * Price of diff by the applied tariff
+     */
+    cost?: number,
+    currency?: string,
+    /**
+     * Name of the applied tariff band
+     */
+    tariff_band?: string,
+    /**
+     * The base rate of a time-of-use tariff was applied, the tariff band is the name of the tariff
+     */
+    tariff_base?: boolean,
+    /**
+     * Data-quality rules violated by the row
+     */
+    quality_rules?: import("./utils/Quality").QualityRule[],
+    /**
+     * Readable reasons of the violated data-quality rules
+     */
+    quality?: string,
+    /**
+     * Filling method of an interval missing from the received measurements
+     */
+    filled?: Exclude<import("./utils/GapFill").GapFill, "none">,
+    /**
+     * Diff as received on a received row whose diff was spread over the missing intervals before it, null when no diff was received
+     */
+    received_diff?: number | null,
+    /**
+     * Start and end of the interval in the display time zone
+     */
+    from_time?: string,
+    to_time?: string,
+    /**
+     * IANA name of the display time zone of the row
+     */
+    time_zone?: string,
+    /**
+     * Mark of an interval containing a DST changeover
+     */
+    dst?: string,
+}
+
+/**
+ * Time-of-use band of a tariff
+ */
+interface TariffBand {
+    name: string,
+    /**
+     * Price of one unit of consumption
+     */
+    rate: number,
+    /**
+     * Start of the band in the local time of the meter, HH:mm
+     */
+    start_time: string,
+    /**
+     * End of the band in the local time of the meter, HH:mm, a band ends on the next day when it is not after start_time
+     */
+    end_time: string,
+    /**
+     * Days of week of the band, 0 is Sunday
+     */
+    days: number[],
+}
+
+/**
+ * Energy tariff
+ */
+interface TariffValues {
+    id: number,
+    name: string,
+    type: "flat" | "tou",
+    currency: string,
+    /**
+     * Price of one unit of flat tariffs, and of time-of-use tariffs outside of their bands
+     */
+    rate: number,
+    bands: TariffBand[],
+    /**
+     * First day of validity, YYYY-MM-DD
+     */
+    valid_from: string,
+    /**
+     * Last day of validity, YYYY-MM-DD, valid without end when missing
+     */
+    valid_to?: string,
+    /**
+     * Energy meter of the tariff, the default tariff of all meters without assignment
+     */
+    energy_meter_id?: number,
+    /**
+     * Channel of the tariff, overrides the tariff of its energy meter
+     */
+    channel_id?: number,
+}
+
+/**
+ * Result of an energy meter connection test
+ */
+interface ProbeResult {
+    reachable: boolean,
+    /**
+     * Round-trip time in milliseconds
+     */
+    latency_ms?: number,
+    /**
+     * The clock of the energy meter
+     */
+    meter_time?: string,
+    firmware?: string,
+    error?: string,
+    /**
+     * Time of the test in the browser
+     */
+    tested_at: string,
+}
+
+/**
+ * The logged in user
+ */
+interface User {
+    username: string,
+    role: import("./utils/Permissions").Role,
+}
+
+/**
+ * A configuration change event of the audit log
+ */
+interface AuditEntry {
+    id: number,
+    entity: "energy_meter" | "channels",
+    entity_id: number,
+    action: "create" | "update" | "delete" | "restore" | "purge",
+    username: string,
+    timestamp: string,
+    /**
+     * Field values before the change, null on create
+     */
+    before: Record<string, unknown> | null,
+    /**
+     * Field values after the change, null on delete
+     */
+    after: Record<string, unknown> | null,
+}
+
+/**
+ * Recurring delivery of a report preset as an export file
+ */
+interface ReportSchedule {
+    frequency: "daily" | "weekly" | "monthly",
+    format: import("./utils/Converter").ExportFormat,
+    /**
+     * E-mail addresses receiving the export file
+     */
+    recipients: string[],
+}
+
+/**
+ * Saved report definition with a relative date range
+ */
+interface ReportPreset {
+    id: number,
+    name: string,
+    ip_addresses: string[],
+    /**
+     * Selected channels as "ip_address:channel" keys, all channels when empty
+     */
+    channels: string[],
+    details: string,
+    date_range: import("./utils/Presets").RelativeRange,
+    /**
+     * Filling of missing intervals of the report
+     */
+    gap_fill: import("./utils/GapFill").GapFill,
+    schedule: ReportSchedule | null,
+    /**
+     * Time of the next scheduled run, set by the backend
+     */
+    next_run_at?: string,
+}
+
+/**
+ * A run of a report preset by the backend
+ */
+interface ReportRun {
+    id: number,
+    preset_id: number,
+    trigger: "manual" | "schedule",
+    status: "running" | "success" | "failed",
+    started_at: string,
+    finished_at?: string,
+    /**
+     * Download link of the generated export file
+     */
+    file_url?: string,
+    error?: string,
+}
+
+/**
+ * Values supported by the Intl API of the browser, missing from the TypeScript library and from older browsers
+ */
+declare namespace Intl {
+    type Key = 'calendar' | 'collation' | 'currency' | 'numberingSystem' | 'timeZone' | 'unit';
+
+    function supportedValuesOf(input: Key): string[];
+}
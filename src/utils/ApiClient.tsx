@@ -0,0 +1,714 @@
+import * as z from 'zod';
+import dayjs from "dayjs";
+import { Role, roles } from "./Permissions";
+import { translateApplied as t } from "./I18n";
+
+/**
+ * Error of a failed RestAPI call
+ */
+export class ApiError extends Error {
+    /**
+     * HTTP status code of the response, 0 when the server could not be reached
+     */
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        Object.setPrototypeOf(this, ApiError.prototype);
+        this.name = "ApiError";
+        this.status = status;
+    }
+}
+
+/**
+ * Readable message of any error thrown by the API client, usable in toasts
+ * @param err the catched error
+ * @returns message to display
+ */
+export function errorMessage(err: unknown): string {
+    if (err instanceof Error) {
+        return err.message;
+    }
+    return typeof err === "string" ? err : JSON.stringify(err);
+}
+
+/**
+ * Listeners of expired or missing sessions
+ */
+const unauthorizedListeners = new Set<() => void>();
+
+/**
+ * Subscribe to 401 responses of RestAPI calls
+ * @param listener called when the session is expired or missing
+ * @returns unsubscribe function
+ */
+export function onUnauthorized(listener: () => void): () => void {
+    unauthorizedListeners.add(listener);
+    return () => {
+        unauthorizedListeners.delete(listener);
+    };
+}
+
+/**
+ * Database flags arrive as 0/1 or as boolean
+ */
+const flag = z.union([z.boolean(), z.number()]).transform((value) => value ? true : false);
+
+/**
+ * Optional number, the backend may send null instead of omitting the field
+ */
+const optionalNumber = z.number().nullish().transform((value) => value ?? undefined);
+
+/**
+ * Optional string, the backend may send null instead of omitting the field
+ */
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+
+/**
+ * Zod schema of an energy meter row
+ */
+export const energyMeterSchema: z.ZodType<EnergyMeterValues, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    asset_name: z.string(),
+    ip_address: z.string(),
+    port: z.number(),
+    time_zone: z.string(),
+    enabled: flag,
+    deleted_at: optionalString,
+});
+
+/**
+ * Zod schema of a channel row
+ */
+export const channelSchema: z.ZodType<ChannelValues, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    energy_meter_id: z.number(),
+    channel: z.number(),
+    channel_name: z.string(),
+    enabled: flag,
+    deleted_at: optionalString,
+});
+
+/**
+ * Zod schema of a measurements report row
+ */
+export const recElementSchema: z.ZodType<RecElement, z.ZodTypeDef, unknown> = z.object({
+    recorded_time: z.number(),
+    measured_value: z.number(),
+    channel: z.number(),
+    diff: optionalNumber,
+    from_utc_time: optionalString,
+    to_utc_time: optionalString,
+    from_server_time: optionalString,
+    to_server_time: optionalString,
+    from_local_time: optionalString,
+    to_local_time: optionalString,
+});
+
+/**
+ * JSON encoded field, the backend may store arrays and objects as text
+ * @param schema zod schema of the decoded value
+ */
+function jsonField<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+    return z.preprocess((value) => {
+        if (typeof value !== "string") {
+            return value;
+        }
+        try {
+            return JSON.parse(value);
+        } catch (err) {
+            return value;
+        }
+    }, schema);
+}
+
+/**
+ * Zod schema of a tariff band
+ */
+const tariffBandSchema: z.ZodType<TariffBand, z.ZodTypeDef, unknown> = z.object({
+    name: z.string(),
+    rate: z.number(),
+    start_time: z.string(),
+    end_time: z.string(),
+    days: z.array(z.number()),
+});
+
+/**
+ * Zod schema of a tariff row
+ */
+export const tariffSchema: z.ZodType<TariffValues, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    name: z.string(),
+    type: z.enum(["flat", "tou"]),
+    currency: z.string(),
+    rate: z.number(),
+    bands: jsonField(z.array(tariffBandSchema)).nullish().transform((value) => value ?? []),
+    valid_from: z.string(),
+    valid_to: optionalString,
+    energy_meter_id: optionalNumber,
+    channel_id: optionalNumber,
+});
+
+/**
+ * Zod schema of a report preset row
+ */
+export const reportPresetSchema: z.ZodType<ReportPreset, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    name: z.string(),
+    ip_addresses: jsonField(z.array(z.string())),
+    channels: jsonField(z.array(z.string())).nullish().transform((value) => value ?? []),
+    details: z.string(),
+    date_range: z.enum(["today", "yesterday", "last_7_days", "week_to_date", "last_week", "month_to_date", "last_month", "year_to_date", "last_year"]),
+    gap_fill: z.enum(["none", "empty", "carry", "linear"]).nullish().transform((value) => value ?? "none"),
+    schedule: jsonField(z.object({
+        frequency: z.enum(["daily", "weekly", "monthly"]),
+        format: z.enum(["csv", "xlsx", "json"]),
+        recipients: z.array(z.string()),
+    })).nullish().transform((value) => value ?? null),
+    next_run_at: optionalString,
+});
+
+/**
+ * Zod schema of a report preset run
+ */
+export const reportRunSchema: z.ZodType<ReportRun, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    preset_id: z.number(),
+    trigger: z.enum(["manual", "schedule"]),
+    status: z.enum(["running", "success", "failed"]),
+    started_at: z.string(),
+    finished_at: optionalString,
+    file_url: optionalString,
+    error: optionalString,
+});
+
+/**
+ * Zod schema of an energy meter connection test response
+ */
+export const probeResultSchema: z.ZodType<ProbeResult, z.ZodTypeDef, unknown> = z.object({
+    reachable: flag,
+    latency_ms: optionalNumber,
+    meter_time: optionalString,
+    firmware: optionalString,
+    error: optionalString,
+    tested_at: z.string().default(() => new Date().toISOString()),
+});
+
+/**
+ * Zod schema of an audit log entry
+ */
+export const auditEntrySchema: z.ZodType<AuditEntry, z.ZodTypeDef, unknown> = z.object({
+    id: z.number(),
+    entity: z.enum(["energy_meter", "channels"]),
+    entity_id: z.number(),
+    action: z.enum(["create", "update", "delete", "restore", "purge"]),
+    username: z.string(),
+    timestamp: z.string(),
+    before: z.record(z.unknown()).nullable(),
+    after: z.record(z.unknown()).nullable(),
+});
+
+/**
+ * Zod schema of the logged in user
+ */
+export const userSchema: z.ZodType<User, z.ZodTypeDef, unknown> = z.object({
+    username: z.string(),
+    role: z.enum(roles as [Role, ...Role[]]).catch("viewer"),
+});
+
+/**
+ * Zod schema of count responses
+ */
+const countSchema = z.object({ count: z.number() }).transform((value) => value.count);
+
+/**
+ * Response of create, update and delete calls. Its content depends on the backend, so it is kept as is, an empty body is an empty object.
+ */
+const mutationResultSchema = z.record(z.unknown()).optional().transform((value) => value ?? {});
+
+export type MutationResult = z.infer<typeof mutationResultSchema>;
+
+/**
+ * Id of a created row, when the backend reports it
+ * @param result response of a create call
+ */
+export function createdId(result: MutationResult): number | undefined {
+    const id = ["id", "lastID", "insertId"].map((key) => result[key]).find((value) => typeof value === "number");
+    return id as number | undefined;
+}
+
+/**
+ * Call the RestAPI and validate the response
+ * @param path request path
+ * @param schema zod schema of the expected response body
+ * @param init fetch options
+ * @returns the validated response body
+ */
+async function request<T>(path: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(path, init);
+    } catch (err) {
+        throw new ApiError(t("Server is not reachable: {error}", { error: errorMessage(err) }), 0);
+    }
+
+    let body: unknown = undefined;
+    const text = await response.text();
+    if (text) {
+        try {
+            body = JSON.parse(text);
+        } catch (err) {
+            if (response.ok) {
+                throw new ApiError(t("Invalid JSON response from {path}", { path }), response.status);
+            }
+        }
+    }
+
+    const serverMessage = body !== null && typeof body === "object" && "err" in body ? errorMessage(body.err) : undefined;
+    if (response.status === 401 && !path.startsWith("/api/auth/")) {
+        unauthorizedListeners.forEach((listener) => listener());
+        throw new ApiError(serverMessage ?? t("Your session has expired, please log in again"), response.status);
+    }
+    if (response.status === 403) {
+        throw new ApiError(t("Permission denied: {reason}", { reason: serverMessage ?? t("your role does not allow this operation") }), response.status);
+    }
+    if (!response.ok) {
+        throw new ApiError(serverMessage ?? `${response.status} ${response.statusText}`, response.status);
+    }
+    if (serverMessage) {
+        throw new ApiError(serverMessage, response.status);
+    }
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new ApiError(t("Unexpected response from {path}: {field} {message}", { path, field: issue.path.join("."), message: issue.message }), response.status);
+    }
+    return parsed.data;
+}
+
+/**
+ * Fetch options of modifying RestAPI calls
+ * @param method HTTP method
+ * @param body request body
+ */
+function jsonRequestInit(method: "POST" | "PUT" | "DELETE", body: unknown): RequestInit {
+    return {
+        method: method,
+        credentials: "include",
+        headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json'
+        },
+        cache: 'no-cache',
+        body: JSON.stringify(body),
+    };
+}
+
+/**
+ * Get the user of the current session
+ * @returns the logged in user, null without valid session
+ */
+export async function fetchSession(): Promise<User | null> {
+    try {
+        return await request('/api/auth/me', userSchema, { credentials: "include", cache: 'no-cache' });
+    } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+            return null;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Log in and start a session
+ * @param username user name
+ * @param password password
+ * @returns the logged in user
+ */
+export function login(username: string, password: string): Promise<User> {
+    return request('/api/auth/login', userSchema, jsonRequestInit("POST", { username, password }));
+}
+
+/**
+ * Close the current session
+ */
+export function logout(): Promise<MutationResult> {
+    return request('/api/auth/logout', mutationResultSchema, jsonRequestInit("POST", {}));
+}
+
+/**
+ * Sort column of CRUD list calls
+ */
+export interface SortParam {
+    field: string;
+    /**
+     * 1 ascending, -1 descending
+     */
+    order: 1 | -1;
+}
+
+/**
+ * Paging, sorting and filtering parameters of CRUD list calls
+ */
+export interface ListParams {
+    first?: number;
+    rows?: number;
+    /**
+     * Field filters, a plain value matches equal fields, a { value, matchMode } object uses the DataTable match mode
+     */
+    filters?: object;
+    sort?: SortParam[];
+    /**
+     * List the rows of the trash instead of the active ones
+     */
+    trash?: boolean;
+}
+
+/**
+ * Build query string of CRUD list and count calls
+ * @param params list parameters
+ */
+function listQuery(params: ListParams): string {
+    const query = new URLSearchParams();
+    if (params.first !== undefined) {
+        query.set("first", String(params.first));
+    }
+    if (params.rows !== undefined) {
+        query.set("rowcount", String(params.rows));
+    }
+    if (params.filters !== undefined) {
+        query.set("filter", JSON.stringify(params.filters));
+    }
+    if (params.sort !== undefined && params.sort.length > 0) {
+        query.set("sort", JSON.stringify(params.sort));
+    }
+    if (params.trash) {
+        query.set("trash", "1");
+    }
+    const result = query.toString();
+    return result ? "?" + result : "";
+}
+
+/**
+ * Get energy meters
+ * @param params paging and filter parameters, all rows without it
+ */
+export function fetchEnergyMeters(params: ListParams = {}): Promise<EnergyMeterValues[]> {
+    return request(`/api/admin/crud/energy_meter${listQuery(params)}`, z.array(energyMeterSchema));
+}
+
+/**
+ * Count energy meters
+ * @param filters filter of counted rows
+ * @param trash count the rows of the trash
+ */
+export function countEnergyMeters(filters: object = {}, trash = false): Promise<number> {
+    return request(`/api/admin/crud/energy_meter/count${listQuery({ filters, trash })}`, countSchema);
+}
+
+/**
+ * Create an energy meter
+ * @param values the new energy meter
+ */
+export function createEnergyMeter(values: Omit<EnergyMeterValues, "id">): Promise<MutationResult> {
+    return request('/api/admin/crud/energy_meter', mutationResultSchema, jsonRequestInit("POST", values));
+}
+
+/**
+ * Update an energy meter
+ * @param id id of energy meter
+ * @param values the modified values
+ */
+export function updateEnergyMeter(id: number, values: Partial<Omit<EnergyMeterValues, "id">>): Promise<MutationResult> {
+    return request(`/api/admin/crud/energy_meter/${id}`, mutationResultSchema, jsonRequestInit("PUT", values));
+}
+
+/**
+ * Move an energy meter into the trash
+ * @param id id of energy meter
+ */
+export function deleteEnergyMeter(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/energy_meter/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'delete' }));
+}
+
+/**
+ * Restore an energy meter from the trash
+ * @param id id of energy meter
+ */
+export function restoreEnergyMeter(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/energy_meter/${id}/restore`, mutationResultSchema, jsonRequestInit("POST", {}));
+}
+
+/**
+ * Delete a trashed energy meter permanently
+ * @param id id of energy meter
+ */
+export function purgeEnergyMeter(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/energy_meter/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'purge' }));
+}
+
+/**
+ * Zod schema of the records depending on an energy meter
+ */
+const energyMeterDependentsSchema = z.object({
+    channels: z.number(),
+    measurements: z.number(),
+});
+
+/**
+ * Records depending on an energy meter
+ */
+export type EnergyMeterDependents = z.infer<typeof energyMeterDependentsSchema>;
+
+/**
+ * Count the channels and measurements of an energy meter
+ * @param id id of energy meter
+ */
+export function fetchEnergyMeterDependents(id: number): Promise<EnergyMeterDependents> {
+    return request(`/api/admin/energy_meter/${id}/dependents`, energyMeterDependentsSchema);
+}
+
+/**
+ * Test whether an energy meter is reachable from the backend
+ * @param target address of energy meter
+ */
+export function probeEnergyMeter(target: Pick<EnergyMeterValues, "ip_address" | "port">): Promise<ProbeResult> {
+    return request('/api/admin/energy_meter/probe', probeResultSchema, jsonRequestInit("POST", { ip_address: target.ip_address, port: target.port }));
+}
+
+/**
+ * Get channels
+ * @param params paging and filter parameters, all rows without it
+ */
+export function fetchChannels(params: ListParams = {}): Promise<ChannelValues[]> {
+    return request(`/api/admin/crud/channels${listQuery(params)}`, z.array(channelSchema));
+}
+
+/**
+ * Count channels
+ * @param filters filter of counted rows
+ * @param trash count the rows of the trash
+ */
+export function countChannels(filters: object = {}, trash = false): Promise<number> {
+    return request(`/api/admin/crud/channels/count${listQuery({ filters, trash })}`, countSchema);
+}
+
+/**
+ * Create a channel
+ * @param values the new channel
+ */
+export function createChannel(values: Omit<ChannelValues, "id">): Promise<MutationResult> {
+    return request('/api/admin/crud/channels', mutationResultSchema, jsonRequestInit("POST", values));
+}
+
+/**
+ * Update a channel
+ * @param id id of channel
+ * @param values the modified values
+ */
+export function updateChannel(id: number, values: Partial<Omit<ChannelValues, "id">>): Promise<MutationResult> {
+    return request(`/api/admin/crud/channels/${id}`, mutationResultSchema, jsonRequestInit("PUT", values));
+}
+
+/**
+ * Move a channel into the trash
+ * @param id id of channel
+ */
+export function deleteChannel(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/channels/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'delete' }));
+}
+
+/**
+ * Restore a channel from the trash
+ * @param id id of channel
+ */
+export function restoreChannel(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/channels/${id}/restore`, mutationResultSchema, jsonRequestInit("POST", {}));
+}
+
+/**
+ * Delete a trashed channel permanently
+ * @param id id of channel
+ */
+export function purgeChannel(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/channels/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'purge' }));
+}
+
+/**
+ * Get tariffs
+ * @param params paging and filter parameters, all rows without it
+ */
+export function fetchTariffs(params: ListParams = {}): Promise<TariffValues[]> {
+    return request(`/api/admin/crud/tariffs${listQuery(params)}`, z.array(tariffSchema));
+}
+
+/**
+ * Count tariffs
+ * @param filters filter of counted rows
+ */
+export function countTariffs(filters: object = {}): Promise<number> {
+    return request(`/api/admin/crud/tariffs/count${listQuery({ filters })}`, countSchema);
+}
+
+/**
+ * Tariff values of create and update calls, null clears the optional fields
+ */
+export type TariffInput = Omit<TariffValues, "id" | "valid_to" | "energy_meter_id" | "channel_id"> & {
+    valid_to: string | null;
+    energy_meter_id: number | null;
+    channel_id: number | null;
+};
+
+/**
+ * Create a tariff
+ * @param values the new tariff
+ */
+export function createTariff(values: TariffInput): Promise<MutationResult> {
+    return request('/api/admin/crud/tariffs', mutationResultSchema, jsonRequestInit("POST", values));
+}
+
+/**
+ * Update a tariff
+ * @param id id of tariff
+ * @param values the modified values
+ */
+export function updateTariff(id: number, values: Partial<TariffInput>): Promise<MutationResult> {
+    return request(`/api/admin/crud/tariffs/${id}`, mutationResultSchema, jsonRequestInit("PUT", values));
+}
+
+/**
+ * Delete a tariff
+ * @param id id of tariff
+ */
+export function deleteTariff(id: number): Promise<MutationResult> {
+    return request(`/api/admin/crud/tariffs/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'delete' }));
+}
+
+/**
+ * Get report presets of the user
+ * @param params paging and filter parameters, all rows without it
+ */
+export function fetchReportPresets(params: ListParams = {}): Promise<ReportPreset[]> {
+    return request(`/api/reports/presets${listQuery(params)}`, z.array(reportPresetSchema));
+}
+
+/**
+ * Count report presets of the user
+ * @param filters filter of counted rows
+ */
+export function countReportPresets(filters: object = {}): Promise<number> {
+    return request(`/api/reports/presets/count${listQuery({ filters })}`, countSchema);
+}
+
+/**
+ * Create a report preset
+ * @param values the new preset
+ */
+export function createReportPreset(values: Omit<ReportPreset, "id" | "next_run_at">): Promise<MutationResult> {
+    return request('/api/reports/presets', mutationResultSchema, jsonRequestInit("POST", values));
+}
+
+/**
+ * Update a report preset
+ * @param id id of preset
+ * @param values the modified values
+ */
+export function updateReportPreset(id: number, values: Partial<Omit<ReportPreset, "id" | "next_run_at">>): Promise<MutationResult> {
+    return request(`/api/reports/presets/${id}`, mutationResultSchema, jsonRequestInit("PUT", values));
+}
+
+/**
+ * Delete a report preset with its run history
+ * @param id id of preset
+ */
+export function deleteReportPreset(id: number): Promise<MutationResult> {
+    return request(`/api/reports/presets/${id}`, mutationResultSchema, jsonRequestInit("DELETE", { action: 'delete' }));
+}
+
+/**
+ * Generate and deliver the export file of a preset now, the same way as its schedule does
+ * @param id id of preset
+ * @returns the started run
+ */
+export function runReportPreset(id: number): Promise<ReportRun> {
+    return request(`/api/reports/presets/${id}/run`, reportRunSchema, jsonRequestInit("POST", {}));
+}
+
+/**
+ * Get the runs of a report preset, the newest first
+ * @param presetId id of preset
+ * @param params paging parameters
+ */
+export function fetchReportRuns(presetId: number, params: ListParams = {}): Promise<ReportRun[]> {
+    return request(`/api/reports/presets/${presetId}/runs${listQuery(params)}`, z.array(reportRunSchema));
+}
+
+/**
+ * Count the runs of a report preset
+ * @param presetId id of preset
+ */
+export function countReportRuns(presetId: number): Promise<number> {
+    return request(`/api/reports/presets/${presetId}/runs/count`, countSchema);
+}
+
+/**
+ * Filter of the audit log
+ */
+export interface AuditFilter {
+    entity?: AuditEntry["entity"];
+    entity_id?: number;
+    username?: string;
+    /**
+     * First day of the period, YYYY-MM-DD
+     */
+    from?: string;
+    /**
+     * Last day of the period, YYYY-MM-DD
+     */
+    to?: string;
+}
+
+/**
+ * Get audit log entries, the newest first
+ * @param params paging parameters and the audit filter
+ */
+export function fetchAuditLog(params: ListParams & { filters: AuditFilter }): Promise<AuditEntry[]> {
+    return request(`/api/admin/audit${listQuery(params)}`, z.array(auditEntrySchema));
+}
+
+/**
+ * Count audit log entries
+ * @param filters the audit filter
+ */
+export function countAuditLog(filters: AuditFilter): Promise<number> {
+    return request(`/api/admin/audit/count${listQuery({ filters })}`, countSchema);
+}
+
+/**
+ * Parameters of measurements report
+ */
+export interface ReportParams {
+    fromDate: string | Date;
+    toDate: string | Date;
+    ipAddress: string;
+    channel?: number | null;
+    details: string;
+}
+
+/**
+ * Get measurements report of an energy meter. The backend provides 15min, hourly, daily and monthly details, finer than monthly ones only for the current year.
+ * @param params report parameters
+ */
+export function fetchReport(params: ReportParams): Promise<RecElement[]> {
+    const query = new URLSearchParams({
+        fromdate: dayjs(params.fromDate).format("YYYY-MM-DD"),
+        todate: dayjs(params.toDate).format("YYYY-MM-DD"),
+        ip: params.ipAddress,
+        details: params.details,
+    });
+    if (params.channel && params.channel > 0) {
+        query.set("channel", String(params.channel));
+    }
+    return request(`/api/measurements/report?${query.toString()}`, z.array(recElementSchema));
+}
@@ -0,0 +1,35 @@
+import { errorMessage } from "./ApiClient";
+
+/**
+ * Result of one item of a batch operation
+ */
+export interface BatchResult<T> {
+    item: T;
+    /**
+     * Error message when the operation failed on the item
+     */
+    error?: string;
+}
+
+/**
+ * Run an operation on items one after the other. Failures do not stop the batch, they are reported per item.
+ * @param items the processed items
+ * @param operation the operation of an item
+ * @param onProgress called after each item with the count of processed items
+ * @returns results in the order of items
+ */
+export async function runBatch<T>(items: T[], operation: (item: T) => Promise<unknown>, onProgress?: (done: number, total: number) => void): Promise<BatchResult<T>[]> {
+    const results: BatchResult<T>[] = [];
+    for (const item of items) {
+        try {
+            await operation(item);
+            results.push({ item });
+        } catch (err) {
+            results.push({ item, error: errorMessage(err) });
+        }
+        if (onProgress) {
+            onProgress(results.length, items.length);
+        }
+    }
+    return results;
+}
@@ -1,21 +1,163 @@
-export function convertToCSV(data: any) {
+import { utils, write } from 'xlsx';
+
+/**
+ * Column of exported data
+ */
+export interface ExportColumn {
+    field: string;
+    header: string;
+}
+
+/**
+ * CSV format options
+ */
+export interface CSVOptions {
+    delimiter: "," | ";" | "\t";
+    decimalSeparator: "." | ",";
+}
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+/**
+ * Default CSV format, as RFC 4180 describes
+ */
+export const defaultCSVOptions: CSVOptions = { delimiter: ",", decimalSeparator: "." };
+
+/**
+ * CSV format of Hungarian Excel
+ */
+export const hungarianCSVOptions: CSVOptions = { delimiter: ";", decimalSeparator: "," };
+
+/**
+ * Columns of exported data. Without explicit columns every field of every row is exported.
+ * @param data exported rows
+ * @param columns explicit columns
+ */
+function resolveColumns(data: object[], columns?: ExportColumn[]): ExportColumn[] {
+    if (columns) {
+        return columns;
+    }
+    const fields: string[] = [];
+    data.forEach((item) => {
+        Object.keys(item).forEach((field) => {
+            if (!fields.includes(field)) {
+                fields.push(field);
+            }
+        });
+    });
+    return fields.map((field) => ({ field, header: field }));
+}
+
+/**
+ * Field value of a row
+ * @param item the row
+ * @param field the field name
+ */
+function fieldValue(item: object, field: string): unknown {
+    return (item as Record<string, unknown>)[field];
+}
+
+/**
+ * Format a value as CSV field, quoted when needed
+ * @param value the value
+ * @param options CSV format options
+ */
+function csvField(value: unknown, options: CSVOptions): string {
+    let text: string;
+    if (value === null || value === undefined) {
+        text = '';
+    } else if (typeof value === "number") {
+        text = options.decimalSeparator === "." ? String(value) : String(value).replace(".", options.decimalSeparator);
+    } else if (value instanceof Date) {
+        text = value.toISOString();
+    } else if (typeof value === "object") {
+        text = JSON.stringify(value);
+    } else {
+        text = String(value);
+    }
+    if (text.includes(options.delimiter) || /["\r\n]/.test(text) || text !== text.trim()) {
+        return '"' + text.replace(/"/g, '""') + '"';
+    }
+    return text;
+}
+
+/**
+ * Convert rows to RFC 4180 CSV
+ * @param data exported rows
+ * @param columns exported columns, all fields without it
+ * @param options CSV format options
+ * @returns the CSV text
+ */
+export function convertToCSV(data: object[], columns?: ExportColumn[], options: CSVOptions = defaultCSVOptions) {
+    const exportColumns = resolveColumns(data, columns);
+    if (exportColumns.length === 0) {
+        return '';
+    }
     const rows = [];
-    const headers = Object.keys(data[0]);
 
     // Add header row
-    rows.push(headers.join(','));
+    rows.push(exportColumns.map((column) => csvField(column.header, options)).join(options.delimiter));
 
     // Add data rows
-    data.forEach((item: any) => {
-        const values = headers.map(header => item[header]);
-        rows.push(values.join(','));
+    data.forEach((item) => {
+        const values = exportColumns.map((column) => csvField(fieldValue(item, column.field), options));
+        rows.push(values.join(options.delimiter));
     });
 
-    return rows.join('\n');
+    return rows.join('\r\n') + '\r\n';
 }
 
-export function downloadCSVFile(data: any, filename: string) {
-    const blob = new Blob([data], { type: 'text/csv;charset=utf-8;' });
+/**
+ * Convert rows to JSON
+ * @param data exported rows
+ * @param columns exported columns, all fields without it
+ * @returns the JSON text
+ */
+export function convertToJSON(data: object[], columns?: ExportColumn[]) {
+    if (!columns) {
+        return JSON.stringify(data, null, 2);
+    }
+    return JSON.stringify(data.map((item) => {
+        const result: Record<string, unknown> = {};
+        columns.forEach((column) => {
+            result[column.field] = fieldValue(item, column.field);
+        });
+        return result;
+    }), null, 2);
+}
+
+/**
+ * Convert rows to XLSX workbook
+ * @param data exported rows
+ * @param columns exported columns, all fields without it
+ * @param sheetName name of worksheet
+ * @returns the XLSX file content
+ */
+export function convertToXLSX(data: object[], columns?: ExportColumn[], sheetName = "Export"): ArrayBuffer {
+    const exportColumns = resolveColumns(data, columns);
+    const rows = [
+        exportColumns.map((column) => column.header),
+        ...data.map((item) => exportColumns.map((column) => {
+            const value = fieldValue(item, column.field);
+            return value !== null && typeof value === "object" && !(value instanceof Date) ? JSON.stringify(value) : value;
+        })),
+    ];
+    const workbook = utils.book_new();
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet(rows), sheetName.substring(0, 31));
+    return write(workbook, { bookType: "xlsx", type: "array" });
+}
+
+/**
+ * Download content as file
+ * @param data file content
+ * @param filename name of downloaded file
+ * @param type MIME type of file
+ */
+export function downloadFile(data: BlobPart, filename: string, type: string) {
+    const blob = new Blob([data], { type: type });
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement('a');
@@ -25,4 +167,101 @@ export function downloadCSVFile(data: any, filename: string) {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Download CSV text as file. The byte order mark makes Excel read it as UTF-8.
+ * @param data CSV text
+ * @param filename name of downloaded file
+ */
+export function downloadCSVFile(data: string, filename: string) {
+    downloadFile('\ufeff' + data, filename, 'text/csv;charset=utf-8;');
+}
+
+/**
+ * Export rows into a downloaded file
+ * @param data exported rows
+ * @param filename name of downloaded file without extension
+ * @param format export format
+ * @param columns exported columns, all fields without it
+ * @param csvOptions CSV format options
+ */
+export function exportData(data: object[], filename: string, format: ExportFormat, columns?: ExportColumn[], csvOptions: CSVOptions = defaultCSVOptions) {
+    switch (format) {
+        case "xlsx":
+            downloadFile(convertToXLSX(data, columns, filename), `${filename}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            break;
+        case "json":
+            downloadFile(convertToJSON(data, columns), `${filename}.json`, 'application/json;charset=utf-8;');
+            break;
+        default:
+            downloadCSVFile(convertToCSV(data, columns, csvOptions), `${filename}.csv`);
+    }
+}
+
+/**
+ * Guess the delimiter of CSV text from its first line
+ * @param text CSV text
+ */
+function detectDelimiter(text: string): CSVOptions["delimiter"] {
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const candidates: CSVOptions["delimiter"][] = [",", ";", "\t"];
+    return candidates.reduce((best, delimiter) => firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best, candidates[0]);
+}
+
+/**
+ * Parse RFC 4180 CSV text
+ * @param text CSV text
+ * @param delimiter field delimiter, detected from the first line without it
+ * @returns rows of fields, empty lines are skipped
+ */
+export function parseCSV(text: string, delimiter?: CSVOptions["delimiter"]): string[][] {
+    const separator = delimiter ?? detectDelimiter(text);
+    const content = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let idx = 0; idx < content.length; idx++) {
+        const char = content[idx];
+        if (quoted) {
+            if (char === '"') {
+                if (content[idx + 1] === '"') {
+                    field += '"';
+                    idx++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[idx + 1] === '\n') {
+                idx++;
+            }
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
 }
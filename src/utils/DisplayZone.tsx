@@ -0,0 +1,116 @@
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { intervalStart } from "./Report";
+import { Translate, untranslated } from "./I18n";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * Time zone of displayed and exported report times: "meter" for the time zone of each energy meter, "browser" for the time zone of the browser, or an IANA time zone
+ */
+export type DisplayZone = string;
+
+/**
+ * Cached IANA time zones of the browser
+ */
+let timeZoneList: string[] | undefined;
+
+/**
+ * IANA time zones supported by the browser, empty where Intl.supportedValuesOf is not available
+ */
+export function timeZones(): string[] {
+    if (!timeZoneList) {
+        try {
+            timeZoneList = Intl.supportedValuesOf('timeZone');
+        } catch (err) {
+            timeZoneList = [];
+        }
+    }
+    return timeZoneList;
+}
+
+/**
+ * Cached display time zone options
+ */
+let zoneOptions: { label: string, value: DisplayZone }[] | undefined;
+
+/**
+ * Selectable display time zones. The IANA time zones are listed only where the browser supports Intl.supportedValuesOf.
+ */
+export function displayZoneOptions(): { label: string, value: DisplayZone }[] {
+    if (!zoneOptions) {
+        zoneOptions = [
+            { label: 'Energy meter', value: 'meter' },
+            { label: 'Browser ({zone})', value: 'browser' },
+            { label: 'UTC', value: 'UTC' },
+            ...timeZones().filter((zone) => zone !== 'UTC').map((zone) => ({ label: zone, value: zone })),
+        ];
+    }
+    return zoneOptions;
+}
+
+/**
+ * The IANA time zone of a report row
+ * @param row the report row
+ * @param zone the display time zone
+ * @param energyMeters all known energy meters
+ */
+function rowZone(row: ReportRow, zone: DisplayZone, energyMeters: EnergyMeterValues[]): string {
+    if (zone === "meter") {
+        return energyMeters.find((item) => item.ip_address === row.ip_address)?.time_zone ?? dayjs.tz.guess();
+    }
+    return zone === "browser" ? dayjs.tz.guess() : zone;
+}
+
+/**
+ * Mark of an interval containing a DST changeover
+ * @param from start of the interval in the display time zone
+ * @param to end of the interval in the display time zone
+ * @param t translation of the mark
+ * @returns the mark, undefined when the UTC offset does not change
+ */
+function dstMark(from: dayjs.Dayjs, to: dayjs.Dayjs, t: Translate): string | undefined {
+    const change = to.utcOffset() - from.utcOffset();
+    if (change === 0) {
+        return undefined;
+    }
+    const days = dayjs(to.format("YYYY-MM-DD")).diff(dayjs(from.format("YYYY-MM-DD")), "day");
+    const dayHours = 24 - change / 60;
+    if (days === 1 && from.format("HH:mm") === to.format("HH:mm")) {
+        return t("{hours}-hour day", { hours: dayHours });
+    }
+    if (days > 1) {
+        return t("Includes a {hours}-hour day", { hours: dayHours });
+    }
+    return t(change > 0 ? "Clocks go forward {hours}h" : "Clocks go back {hours}h", { hours: Math.abs(change) / 60 });
+}
+
+/**
+ * Set the displayed from/to times of report rows in a time zone, marking the intervals containing a DST changeover.
+ * Times of marked intervals include their UTC offset, so repeated local hours stay distinguishable.
+ * @param rows the report rows
+ * @param zone the display time zone
+ * @param energyMeters all known energy meters
+ * @param timeFormat dayjs format of the times
+ * @param t translation of the DST marks
+ */
+export function withDisplayTimes(rows: ReportRow[], zone: DisplayZone, energyMeters: EnergyMeterValues[], timeFormat = "YYYY-MM-DD HH:mm", t: Translate = untranslated): ReportRow[] {
+    return rows.map((row) => {
+        const timeZone = rowZone(row, zone, energyMeters);
+        const start = intervalStart(row);
+        const end = row.to_utc_time ? dayjs.utc(row.to_utc_time) : undefined;
+        const from = start.tz(timeZone);
+        const to = end && end.isValid() ? end.tz(timeZone) : undefined;
+        const dst = to ? dstMark(from, to, t) : undefined;
+        const format = dst ? `${timeFormat} Z` : timeFormat;
+        return {
+            ...row,
+            from_time: from.format(format),
+            to_time: to?.format(format),
+            time_zone: timeZone,
+            dst,
+        };
+    });
+}
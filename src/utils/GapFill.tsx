@@ -0,0 +1,191 @@
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { addInterval, channelKey, intervalStart, ReportInterval, reportInterval } from "./Report";
+import { periodStart } from "./Granularity";
+import { Translate, untranslated } from "./I18n";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * Filling of intervals missing from the received measurements
+ */
+export type GapFill = "none" | "empty" | "carry" | "linear";
+
+/**
+ * Selectable gap filling methods
+ */
+export const gapFillOptions: { label: string, value: GapFill }[] = [
+    { label: 'No filling', value: 'none' },
+    { label: 'Leave empty', value: 'empty' },
+    { label: 'Carry forward', value: 'carry' },
+    { label: 'Spread linearly', value: 'linear' },
+];
+
+/**
+ * Display name of a gap filling method
+ * @param method the gap filling method
+ */
+export function gapFillLabel(method: GapFill): string {
+    return gapFillOptions.find((item) => item.value === method)?.label ?? method;
+}
+
+/**
+ * Label of a filled interval or of a received row adjusted by gap filling
+ * @param row the report row
+ * @param t translation of the label
+ * @returns the label, undefined on received rows kept as they are
+ */
+export function filledLabel(row: ReportRow, t: Translate = untranslated): string | undefined {
+    if (row.filled) {
+        return t(gapFillLabel(row.filled));
+    }
+    if (row.received_diff !== undefined) {
+        return t("Adjusted, received diff {diff}", { diff: row.received_diff ?? "-" });
+    }
+    return undefined;
+}
+
+/**
+ * Format of the time columns of filled rows
+ */
+const timeFormat = "YYYY-MM-DD HH:mm:ss";
+
+/**
+ * Energy meter and channel fields shared by the rows of a channel
+ */
+type SeriesTemplate = Pick<ReportRow, "channel" | "asset_name" | "ip_address" | "channel_name">;
+
+/**
+ * A report row of a missing interval
+ * @param template the channel of the row
+ * @param slot start of the interval in the time zone of the energy meter
+ * @param interval length of the interval
+ * @param timeZone time zone of the energy meter
+ * @param filled the filling method
+ * @param measured_value the filled counter value, null when left empty
+ * @param diff the filled consumption
+ */
+function filledRow(template: SeriesTemplate, slot: dayjs.Dayjs, interval: ReportInterval, timeZone: string, filled: Exclude<GapFill, "none">, measured_value: number | null, diff?: number): ReportRow {
+    const next = addInterval(slot, interval, timeZone);
+    return {
+        recorded_time: slot.unix(),
+        channel: template.channel,
+        asset_name: template.asset_name,
+        ip_address: template.ip_address,
+        channel_name: template.channel_name,
+        measured_value,
+        diff,
+        from_utc_time: slot.utc().format(timeFormat),
+        to_utc_time: next.utc().format(timeFormat),
+        from_local_time: slot.format(timeFormat),
+        to_local_time: next.format(timeFormat),
+        filled,
+    };
+}
+
+/**
+ * Channels the report is expected to cover: the selected channels of every selected energy meter, its enabled channels when none of them is selected
+ * @param params the report form values
+ * @param energyMeters all known energy meters
+ * @param channels channels of the selected energy meters
+ */
+function expectedChannels(params: FormValues, energyMeters: EnergyMeterValues[], channels: ChannelValues[]): SeriesTemplate[] {
+    return params.ipAddresses.flatMap((ipAddress) => {
+        const energyMeter = energyMeters.find((item) => item.ip_address === ipAddress);
+        if (!energyMeter) {
+            return [];
+        }
+        const meterChannels = channels.filter((item) => item.energy_meter_id === energyMeter.id);
+        const selected = meterChannels.filter((item) => params.channels.includes(channelKey(ipAddress, item.channel)));
+        return (selected.length > 0 ? selected : meterChannels.filter((item) => item.enabled)).map((item) => ({
+            channel: item.channel,
+            asset_name: energyMeter.asset_name,
+            ip_address: ipAddress,
+            channel_name: item.channel_name,
+        }));
+    });
+}
+
+/**
+ * Fill the full interval grid of every expected channel between the first and last day of the report.
+ * Intervals before the first received row, and every interval of a channel without received rows, are left empty, as there is nothing to carry or spread.
+ * Intervals are positioned by their start, like the rolled up, priced and displayed rows.
+ * @param rows the received report rows
+ * @param params the report form values
+ * @param energyMeters all known energy meters, their time zone aligns the grid
+ * @param channels channels of the selected energy meters
+ * @returns the rows with the filled intervals, ordered by time, asset name and channel
+ */
+export function fillGaps(rows: ReportRow[], params: FormValues, energyMeters: EnergyMeterValues[], channels: ChannelValues[]): ReportRow[] {
+    const method = params.gapFill ?? "none";
+    if (method === "none") {
+        return rows;
+    }
+    const interval = reportInterval(params.details);
+
+    const series = new Map<string, { template: SeriesTemplate, rows: ReportRow[] }>();
+    expectedChannels(params, energyMeters, channels).forEach((template) => {
+        series.set(channelKey(template.ip_address, template.channel), { template, rows: [] });
+    });
+    rows.forEach((row) => {
+        const key = channelKey(row.ip_address, row.channel);
+        const item = series.get(key) ?? { template: row, rows: [] };
+        series.set(key, { ...item, rows: [...item.rows, row] });
+    });
+
+    const result: ReportRow[] = [];
+    series.forEach(({ template, rows: channelRows }) => {
+        const timeZone = energyMeters.find((item) => item.ip_address === template.ip_address)?.time_zone ?? dayjs.tz.guess();
+        const start = dayjs.tz(dayjs(params.fromDate).format("YYYY-MM-DD"), timeZone);
+        const end = dayjs.tz(dayjs(params.toDate).add(1, "day").format("YYYY-MM-DD"), timeZone);
+        const slotOf = (row: ReportRow) => intervalStart(row).tz(timeZone);
+        const next = (slot: dayjs.Dayjs) => addInterval(slot, interval, timeZone);
+
+        if (channelRows.length === 0) {
+            const first = periodStart(start, params.details, timeZone);
+            for (let slot = first.isBefore(start) ? next(first) : first; slot.isBefore(end); slot = next(slot)) {
+                result.push(filledRow(template, slot, interval, timeZone, "empty", null));
+            }
+            return;
+        }
+
+        const sorted = [...channelRows].sort((a, b) => intervalStart(a).diff(intervalStart(b)));
+        const first = sorted[0];
+        const last = sorted[sorted.length - 1];
+
+        for (let slot = addInterval(slotOf(first), interval, timeZone, -1); !slot.isBefore(start); slot = addInterval(slot, interval, timeZone, -1)) {
+            result.push(filledRow(template, slot, interval, timeZone, "empty", null));
+        }
+
+        sorted.forEach((row, index) => {
+            const previous = sorted[index - 1];
+            const slots: dayjs.Dayjs[] = [];
+            if (previous) {
+                for (let slot = next(slotOf(previous)); slotOf(row).diff(slot, interval.unit, true) / interval.amount > 0.5; slot = next(slot)) {
+                    slots.push(slot);
+                }
+            }
+            if (slots.length > 0 && method === "linear" && previous.measured_value !== null && row.measured_value !== null) {
+                // The consumption of the gap arrives with the next received row, it is shared by all intervals of the gap.
+                // The received row keeps its original diff, so it is marked as adjusted in the table and the exports.
+                const share = (row.measured_value - previous.measured_value) / (slots.length + 1);
+                const base = previous.measured_value;
+                slots.forEach((slot, idx) => result.push(filledRow(row, slot, interval, timeZone, "linear", base + share * (idx + 1), share)));
+                result.push({ ...row, diff: share, received_diff: row.diff ?? null });
+                return;
+            }
+            slots.forEach((slot) => result.push(method === "carry" && previous.measured_value !== null
+                ? filledRow(row, slot, interval, timeZone, "carry", previous.measured_value, 0)
+                : filledRow(row, slot, interval, timeZone, "empty", null)));
+            result.push(row);
+        });
+
+        for (let slot = next(slotOf(last)); slot.isBefore(end); slot = next(slot)) {
+            result.push(method === "carry" && last.measured_value !== null ? filledRow(last, slot, interval, timeZone, "carry", last.measured_value, 0) : filledRow(last, slot, interval, timeZone, "empty", null));
+        }
+    });
+
+    return result.sort((a, b) => intervalStart(a).diff(intervalStart(b)) || a.asset_name.localeCompare(b.asset_name) || a.channel - b.channel);
+}
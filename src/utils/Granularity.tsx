@@ -0,0 +1,143 @@
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { addInterval, intervalStart, reportInterval } from "./Report";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * A selectable report granularity
+ */
+export interface Granularity {
+    label: string;
+    value: string;
+    /**
+     * The details requested from the backend, coarser granularities are rolled up from it on the client
+     */
+    source: string;
+}
+
+/**
+ * Selectable report granularities. 15-minute rows are requested from the backend, which stores them for demand billing.
+ */
+export const granularities: Granularity[] = [
+    { label: '15 minutes', value: '15min', source: '15min' },
+    { label: 'Hourly', value: 'hourly', source: 'hourly' },
+    { label: 'Daily', value: 'daily', source: 'daily' },
+    { label: 'Weekly', value: 'weekly', source: 'daily' },
+    { label: 'Monthly', value: 'monthly', source: 'monthly' },
+    { label: 'Quarterly', value: 'quarterly', source: 'monthly' },
+    { label: 'Yearly', value: 'yearly', source: 'monthly' },
+];
+
+/**
+ * The details to request from the backend for a granularity
+ * @param details the report details
+ */
+export function sourceDetails(details: string): string {
+    return granularities.find((item) => item.value === details)?.source ?? details;
+}
+
+/**
+ * Display name of a granularity
+ * @param details the report details
+ */
+export function granularityLabel(details: string): string {
+    return granularities.find((item) => item.value === details)?.label ?? details;
+}
+
+/**
+ * Format of the time columns of rolled up rows
+ */
+const timeFormat = "YYYY-MM-DD HH:mm:ss";
+
+/**
+ * Local start day of the bucket of a local time
+ * @param local the time in the time zone of the energy meter
+ * @param details the report details
+ * @returns the day, YYYY-MM-DD
+ */
+function bucketDay(local: dayjs.Dayjs, details: string): string {
+    switch (details) {
+        case "weekly":
+            // Weeks start on Monday
+            return local.subtract((local.day() + 6) % 7, "day").format("YYYY-MM-DD");
+        case "monthly":
+            return `${local.format("YYYY-MM")}-01`;
+        case "quarterly":
+            return `${local.format("YYYY")}-${String(Math.floor(local.month() / 3) * 3 + 1).padStart(2, "0")}-01`;
+        case "yearly":
+            return `${local.format("YYYY")}-01-01`;
+        default:
+            return local.format("YYYY-MM-DD");
+    }
+}
+
+/**
+ * Start of the report interval containing a time
+ * @param local the time in the time zone of the energy meter
+ * @param details the report details
+ * @param timeZone time zone of the energy meter
+ */
+export function periodStart(local: dayjs.Dayjs, details: string, timeZone: string): dayjs.Dayjs {
+    switch (details) {
+        case "15min":
+            return local.startOf("hour").add(Math.floor(local.minute() / 15) * 15, "minute");
+        case "hourly":
+            return local.startOf("hour");
+        default:
+            return dayjs.tz(bucketDay(local, details), timeZone);
+    }
+}
+
+/**
+ * Roll up report rows into coarser buckets in the time zone of their energy meter. Bucket bounds are built from local days, so they follow DST changes.
+ * The consumption of a bucket is the sum of its rows, its counter value is the value of its last row.
+ * @param rows the report rows of the source details
+ * @param details the requested report details
+ * @param energyMeters all known energy meters
+ * @returns the rolled up rows ordered by time, asset name and channel, the rows unchanged when the backend provides the details
+ */
+export function rollUp(rows: ReportRow[], details: string, energyMeters: EnergyMeterValues[]): ReportRow[] {
+    if (sourceDetails(details) === details) {
+        return rows;
+    }
+    const interval = reportInterval(details);
+
+    const buckets = new Map<string, ReportRow[]>();
+    rows.forEach((row) => {
+        const timeZone = energyMeters.find((item) => item.ip_address === row.ip_address)?.time_zone ?? dayjs.tz.guess();
+        const key = `${row.ip_address}:${row.channel}:${bucketDay(intervalStart(row).tz(timeZone), details)}`;
+        buckets.set(key, [...(buckets.get(key) ?? []), row]);
+    });
+
+    const result: ReportRow[] = [];
+    buckets.forEach((bucketRows, key) => {
+        const sorted = [...bucketRows].sort((a, b) => a.recorded_time - b.recorded_time);
+        const first = sorted[0];
+        const last = sorted[sorted.length - 1];
+        const timeZone = energyMeters.find((item) => item.ip_address === first.ip_address)?.time_zone ?? dayjs.tz.guess();
+        const start = dayjs.tz(key.substring(key.lastIndexOf(":") + 1), timeZone);
+        const end = addInterval(start, interval, timeZone);
+        const diffs = sorted.filter((row) => row.diff !== undefined);
+        result.push({
+            recorded_time: start.unix(),
+            channel: first.channel,
+            asset_name: first.asset_name,
+            ip_address: first.ip_address,
+            channel_name: first.channel_name,
+            measured_value: last.measured_value,
+            diff: diffs.length > 0 ? diffs.reduce((sum, row) => sum + (row.diff ?? 0), 0) : undefined,
+            from_server_time: first.from_server_time,
+            to_server_time: last.to_server_time,
+            from_utc_time: start.utc().format(timeFormat),
+            to_utc_time: end.utc().format(timeFormat),
+            from_local_time: start.format(timeFormat),
+            to_local_time: end.format(timeFormat),
+        });
+    });
+
+    return result.sort((a, b) => a.recorded_time - b.recorded_time || a.asset_name.localeCompare(b.asset_name) || a.channel - b.channel);
+}
+
@@ -0,0 +1,239 @@
+import * as z from 'zod';
+import { addLocale, locale } from 'primereact/api';
+import { hungarian } from "./I18nHungarian";
+
+/**
+ * Languages of the UI
+ */
+export type Language = "en" | "hu";
+
+/**
+ * Selectable languages
+ */
+export const languages: { label: string, value: Language }[] = [
+    { label: 'English', value: 'en' },
+    { label: 'Magyar', value: 'hu' },
+];
+
+/**
+ * Values of the {name} placeholders of a text
+ */
+export type TranslateParams = Record<string, string | number>;
+
+/**
+ * Translate an English text of the UI into the current language
+ */
+export type Translate = (text: string, params?: TranslateParams) => string;
+
+/**
+ * Translations of the English texts by language, English texts are their own translation
+ */
+const dictionaries: Record<Language, Record<string, string>> = {
+    en: {},
+    hu: hungarian,
+};
+
+/**
+ * Local storage key of the selected language
+ */
+const languageKey = "language";
+
+/**
+ * Load the selected language, the language of the browser on first use
+ */
+export function storedLanguage(): Language {
+    const stored = localStorage.getItem(languageKey);
+    if (stored === "en" || stored === "hu") {
+        return stored;
+    }
+    return navigator.language.toLowerCase().startsWith("hu") ? "hu" : "en";
+}
+
+/**
+ * Remember the selected language
+ * @param language the language
+ */
+export function storeLanguage(language: Language) {
+    localStorage.setItem(languageKey, language);
+}
+
+/**
+ * BCP 47 locale of number and date formatting
+ * @param language the language
+ */
+export function localeOf(language: Language): string {
+    return language === "hu" ? "hu-HU" : "en-US";
+}
+
+/**
+ * Translate an English text and fill its {name} placeholders. Texts without translation are shown in English.
+ * @param language the target language
+ * @param text the English text
+ * @param params values of the placeholders
+ */
+export function translate(language: Language, text: string, params?: TranslateParams): string {
+    const translated = dictionaries[language][text] ?? text;
+    if (!params) {
+        return translated;
+    }
+    return translated.replace(/\{(\w+)\}/g, (placeholder, name: string) => params[name] !== undefined ? String(params[name]) : placeholder);
+}
+
+/**
+ * Translate into English, the texts of the UI are English themselves
+ */
+export const untranslated: Translate = (text, params) => translate("en", text, params);
+
+/**
+ * The language applied to the UI
+ */
+let appliedLanguage: Language = "en";
+
+/**
+ * Translate into the language applied to the UI, for code outside of React components
+ */
+export const translateApplied: Translate = (text, params) => translate(appliedLanguage, text, params);
+
+/**
+ * Format a number by the conventions of a language
+ * @param language the language
+ * @param value the number
+ * @param maximumFractionDigits maximal number of decimals
+ */
+export function formatNumber(language: Language, value: number, maximumFractionDigits = 3): string {
+    return new Intl.NumberFormat(localeOf(language), { maximumFractionDigits }).format(value);
+}
+
+/**
+ * Dayjs format of displayed dates
+ * @param language the language
+ */
+export function dateFormat(language: Language): string {
+    return language === "hu" ? "YYYY. MM. DD." : "YYYY-MM-DD";
+}
+
+/**
+ * Dayjs format of displayed date and time values
+ * @param language the language
+ */
+export function dateTimeFormat(language: Language): string {
+    return `${dateFormat(language)} HH:mm`;
+}
+
+/**
+ * Zod error map producing the default messages of zod in a language
+ * @param language the language
+ */
+export function zodErrorMap(language: Language): z.ZodErrorMap {
+    const t = (text: string, params?: TranslateParams) => translate(language, text, params);
+    return (issue, ctx) => {
+        switch (issue.code) {
+            case z.ZodIssueCode.invalid_type:
+                if (issue.received === z.ZodParsedType.undefined || issue.received === z.ZodParsedType.null) {
+                    return { message: t("Required") };
+                }
+                return { message: t("Expected {expected}, received {received}", { expected: issue.expected, received: issue.received }) };
+            case z.ZodIssueCode.invalid_enum_value:
+                return { message: t("Invalid value, expected one of {options}", { options: issue.options.join(", ") }) };
+            case z.ZodIssueCode.invalid_date:
+                return { message: t("Invalid date") };
+            case z.ZodIssueCode.invalid_string:
+                if (issue.validation === "email") {
+                    return { message: t("Invalid e-mail address") };
+                }
+                if (issue.validation === "ip") {
+                    return { message: t("Invalid IP address") };
+                }
+                return { message: t("Invalid format") };
+            case z.ZodIssueCode.too_small:
+                if (issue.type === "string") {
+                    return { message: issue.minimum === 1 ? t("Required") : t("Must contain at least {minimum} characters", { minimum: Number(issue.minimum) }) };
+                }
+                if (issue.type === "array") {
+                    return { message: issue.minimum === 1 ? t("Select at least one item") : t("Select at least {minimum} items", { minimum: Number(issue.minimum) }) };
+                }
+                return { message: t(issue.inclusive ? "Must be at least {minimum}" : "Must be greater than {minimum}", { minimum: Number(issue.minimum) }) };
+            case z.ZodIssueCode.too_big:
+                if (issue.type === "string") {
+                    return { message: t("Must contain at most {maximum} characters", { maximum: Number(issue.maximum) }) };
+                }
+                if (issue.type === "array") {
+                    return { message: t("Select at most {maximum} items", { maximum: Number(issue.maximum) }) };
+                }
+                return { message: t(issue.inclusive ? "Must be at most {maximum}" : "Must be less than {maximum}", { maximum: Number(issue.maximum) }) };
+            case z.ZodIssueCode.custom:
+                return { message: t("Invalid value") };
+            default:
+                return { message: t(ctx.defaultError) };
+        }
+    };
+}
+
+/**
+ * Hungarian texts and formats of PrimeReact components
+ */
+addLocale('hu', {
+    startsWith: 'Kezdete',
+    contains: 'Tartalmazza',
+    notContains: 'Nem tartalmazza',
+    endsWith: 'Vége',
+    equals: 'Egyenlő',
+    notEquals: 'Nem egyenlő',
+    noFilter: 'Nincs szűrés',
+    filter: 'Szűrés',
+    lt: 'Kisebb mint',
+    lte: 'Kisebb vagy egyenlő',
+    gt: 'Nagyobb mint',
+    gte: 'Nagyobb vagy egyenlő',
+    dateIs: 'Dátum',
+    dateIsNot: 'Dátum nem',
+    dateBefore: 'Dátum előtt',
+    dateAfter: 'Dátum után',
+    custom: 'Egyéni',
+    clear: 'Törlés',
+    close: 'Bezárás',
+    apply: 'Alkalmaz',
+    matchAll: 'Mindegyik',
+    matchAny: 'Bármelyik',
+    addRule: 'Feltétel hozzáadása',
+    removeRule: 'Feltétel törlése',
+    accept: 'Igen',
+    reject: 'Nem',
+    choose: 'Kiválasztás',
+    upload: 'Feltöltés',
+    cancel: 'Mégse',
+    dayNames: ['vasárnap', 'hétfő', 'kedd', 'szerda', 'csütörtök', 'péntek', 'szombat'],
+    dayNamesShort: ['vas', 'hét', 'ked', 'sze', 'csü', 'pén', 'szo'],
+    dayNamesMin: ['V', 'H', 'K', 'Sze', 'Cs', 'P', 'Szo'],
+    monthNames: ['január', 'február', 'március', 'április', 'május', 'június', 'július', 'augusztus', 'szeptember', 'október', 'november', 'december'],
+    monthNamesShort: ['jan', 'feb', 'már', 'ápr', 'máj', 'jún', 'júl', 'aug', 'szep', 'okt', 'nov', 'dec'],
+    today: 'Ma',
+    weekHeader: 'Hét',
+    firstDayOfWeek: 1,
+    dateFormat: 'yy. mm. dd.',
+    weak: 'Gyenge',
+    medium: 'Közepes',
+    strong: 'Erős',
+    passwordPrompt: 'Adjon meg egy jelszót',
+    emptyFilterMessage: 'Nincs választható elem',
+    emptyMessage: 'Nincs találat',
+});
+
+/**
+ * English PrimeReact locale with ISO dates and weeks starting on Monday, as the reports use them
+ */
+addLocale('en-iso', {
+    firstDayOfWeek: 1,
+    dateFormat: 'yy-mm-dd',
+});
+
+/**
+ * Switch the language of PrimeReact components, zod validation messages and API client errors
+ * @param language the language
+ */
+export function applyLanguage(language: Language) {
+    appliedLanguage = language;
+    locale(language === "hu" ? "hu" : "en-iso");
+    z.setErrorMap(zodErrorMap(language));
+    document.documentElement.lang = language;
+}
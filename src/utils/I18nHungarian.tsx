@@ -0,0 +1,377 @@
+/**
+ * Hungarian translations of the English texts of the UI
+ */
+export const hungarian: Record<string, string> = {
+    // Navigation and authentication
+    "Home": "Kezdőlap",
+    "Report presets": "Mentett riportok",
+    "Dashboard": "Áttekintés",
+    "Energy meter": "Fogyasztásmérő",
+    "Channels": "Csatornák",
+    "Tariffs": "Tarifák",
+    "Audit log": "Változásnapló",
+    "Logout": "Kijelentkezés",
+    "Language": "Nyelv",
+    "viewer": "megtekintő",
+    "operator": "operátor",
+    "admin": "adminisztrátor",
+    "Session expired": "Lejárt munkamenet",
+    "Your session has expired. Please log in again to continue where you left off.": "A munkamenet lejárt. Jelentkezzen be újra, és folytassa ott, ahol abbahagyta.",
+    "Access denied": "Hozzáférés megtagadva",
+    "Your role does not allow to open this page.": "A szerepköre nem engedi az oldal megnyitását.",
+    "User name": "Felhasználónév",
+    "Password": "Jelszó",
+    "Log in": "Bejelentkezés",
+    "Page not found": "Az oldal nem található",
+    "There is no page at {path}.": "Nincs oldal ezen a címen: {path}.",
+
+    // Common
+    "Form submit": "Mentés",
+    "Please fill form as needed. Read tooltips on red marked fields.": "Töltse ki az űrlapot. A pirossal jelölt mezők súgójában olvashatja a hibát.",
+    "Submit": "Mentés",
+    "New": "Új",
+    "Modify": "Módosítás",
+    "Delete": "Törlés",
+    "Import": "Importálás",
+    "Trash": "Lomtár",
+    "Enable": "Engedélyezés",
+    "Disable": "Letiltás",
+    "Undo": "Visszavonás",
+    "Clear selection": "Kijelölés törlése",
+    "Cancel": "Mégse",
+    "Close": "Bezárás",
+    "{count} selected": "{count} kijelölve",
+    "{count} selected:": "{count} kijelölve:",
+    "Search by name": "Keresés név szerint",
+    "Id": "Azonosító",
+    "Asset name": "Eszköz neve",
+    "IP address": "IP-cím",
+    "IP prefix": "IP-cím eleje",
+    "Port": "Port",
+    "Time zone": "Időzóna",
+    "Enabled": "Engedélyezve",
+    "Connection": "Kapcsolat",
+    "Channel": "Csatorna",
+    "Channel name": "Csatorna neve",
+    "Channel Name": "Csatorna neve",
+    "Energy meter id": "Fogyasztásmérő azonosító",
+    "Energy meter name": "Fogyasztásmérő neve",
+
+    // Bulk actions and trash
+    "The following changes will be made:": "A következő változások történnek:",
+    "{title} {count} items": "{title}: {count} elem",
+    "{count} of {total} succeeded": "{total} elemből {count} sikerült",
+    "{count} of {total} failed:": "{total} elemből {count} nem sikerült:",
+    "moved to the trash": "lomtárba kerül",
+    "moved to the trash, {dependents}": "lomtárba kerül, {dependents}",
+    "Restore": "Visszaállítás",
+    "Purge": "Végleges törlés",
+    "Deleted": "Törölve",
+    "The trash is empty": "A lomtár üres",
+    "Restored {count} items": "{count} elem visszaállítva",
+    "Purged {count} items": "{count} elem véglegesen törölve",
+    "{count} of {total} items could not be restored: {errors}": "{total} elemből {count} nem állítható vissza: {errors}",
+    "{count} of {total} items could not be purged: {errors}": "{total} elemből {count} nem törölhető véglegesen: {errors}",
+    "Permanently delete {count} items? This cannot be undone.": "Véglegesen törli a(z) {count} elemet? Ez nem vonható vissza.",
+
+    // Export
+    "CSV options": "CSV beállítások",
+    "Delimiter": "Elválasztó",
+    "Decimal separator": "Tizedesjel",
+    "Comma (,)": "Vessző (,)",
+    "Semicolon (;)": "Pontosvessző (;)",
+    "Tab": "Tabulátor",
+    "Point (.)": "Pont (.)",
+    "Standard": "Szabványos",
+    "Hungarian Excel": "Magyar Excel",
+
+    // Energy meters
+    "Select time zone": "Válasszon időzónát",
+    "Any time zone": "Bármely időzóna",
+    "Set time zone": "Időzóna beállítása",
+    "Test connection": "Kapcsolat tesztelése",
+    "Not tested": "Nincs tesztelve",
+    "Tested at {time}": "Tesztelve: {time}",
+    "Offline": "Nem elérhető",
+    "Online": "Elérhető",
+    "Online {latency} ms": "Elérhető, {latency} ms",
+    "Latency:": "Késleltetés:",
+    "Meter clock:": "Mérő órája:",
+    "Firmware:": "Firmware:",
+    "Error:": "Hiba:",
+    "Updated energymeter: {data}": "Fogyasztásmérő módosítva: {data}",
+    "Saved energymeter: {data}": "Fogyasztásmérő mentve: {data}",
+    "Created energy meter {ip_address} not found, channels are not generated": "A létrehozott {ip_address} fogyasztásmérő nem található, a csatornák nem jöttek létre",
+    "{error}. Add the channels in the expanded row of the energy meter.": "{error}. A csatornákat a fogyasztásmérő lenyitott sorában veheti fel.",
+    "Created {count} channels": "{count} csatorna létrehozva",
+    "{count} of {total} channels could not be created": "{total} csatornából {count} nem hozható létre",
+    "{count} of {total} channels could not be created:": "{total} csatornából {count} nem hozható létre:",
+    "{channels} channels and {measurements} measurements depend on it": "{channels} csatorna és {measurements} mérés tartozik hozzá",
+    "dependent records unknown: {error}": "a hozzá tartozó adatok ismeretlenek: {error}",
+    "{title}: {count} energy meters updated": "{title}: {count} fogyasztásmérő módosítva",
+    "{title}: {count} of {total} energy meters failed": "{title}: {total} fogyasztásmérőből {count} nem sikerült",
+    "Undo: {count} of {total} energy meters restored": "Visszavonás: {total} fogyasztásmérőből {count} visszaállítva",
+    "Generate channels": "Csatornák létrehozása",
+    "Count": "Darabszám",
+    "First number": "Első sorszám",
+    "Name pattern": "Névminta",
+    "{n} is replaced by the channel number": "A {n} helyére a csatorna sorszáma kerül",
+    "Retry failed": "Sikertelenek újra",
+    "Channels of {name}": "{name} csatornái",
+    "Add channel": "Csatorna hozzáadása",
+    "Open in channels": "Megnyitás a csatornák között",
+    "Energy meter {id} not found": "A(z) {id} fogyasztásmérő nem található",
+    "Your role does not allow to edit energy meters.": "A szerepköre nem engedi a fogyasztásmérők szerkesztését.",
+
+    // Channels
+    "Select energy meter": "Válasszon fogyasztásmérőt",
+    "Any energy meter": "Bármely fogyasztásmérő",
+    "Updated channel: {name}": "Csatorna módosítva: {name}",
+    "Saved channel: {name}": "Csatorna mentve: {name}",
+    "Enabled channel: {name}": "Csatorna engedélyezve: {name}",
+    "Disabled channel: {name}": "Csatorna letiltva: {name}",
+    "{title}: {count} channels updated": "{title}: {count} csatorna módosítva",
+    "{title}: {count} of {total} channels failed": "{title}: {total} csatornából {count} nem sikerült",
+    "Undo: {count} of {total} channels restored": "Visszavonás: {total} csatornából {count} visszaállítva",
+
+    // Measurements report
+    "Measurements": "Mérések",
+    "From date": "Kezdő dátum",
+    "To date": "Záró dátum",
+    "Select assets": "Válasszon eszközöket",
+    "All channels": "Minden csatorna",
+    "Select details": "Válasszon részletességet",
+    "Missing intervals": "Hiányzó időszakok",
+    "Send": "Lekérdezés",
+    "Save preset": "Mentés riportként",
+    "Run preset": "Mentett riport futtatása",
+    "No saved presets": "Nincs mentett riport",
+    "Table": "Táblázat",
+    "Chart": "Diagram",
+    "Channels as columns": "Csatornák oszlopokban",
+    "Time zone of displayed and exported times": "A megjelenített és exportált időpontok időzónája",
+    "Details must be monthly, quarterly or yearly when required year less then current year": "Korábbi évekre csak havi, negyedéves vagy éves részletesség kérhető",
+    "Costs are not calculated: {error}": "A költségek nem számíthatók: {error}",
+    "Time-of-use bands are applied at the start of each row, use 15-minute or hourly details for exact costs": "Az időszakos tarifasávok a sorok kezdetén érvényesek, pontos költséghez 15 perces vagy órás részletességet válasszon",
+    "15 minutes": "15 perces",
+    "Hourly": "Órás",
+    "Daily": "Napi",
+    "Weekly": "Heti",
+    "Monthly": "Havi",
+    "Quarterly": "Negyedéves",
+    "Yearly": "Éves",
+    "No filling": "Nincs kitöltés",
+    "Leave empty": "Üresen hagyás",
+    "Carry forward": "Előző érték ismétlése",
+    "Spread linearly": "Egyenletes elosztás",
+    "Adjusted, received diff {diff}": "Módosítva, kapott fogyasztás: {diff}",
+    "Browser ({zone})": "Böngésző ({zone})",
+    "UTC": "UTC",
+    "From": "Kezdete",
+    "To": "Vége",
+    "DST": "Óraátállítás",
+    "Measured value": "Mért érték",
+    "Diff": "Fogyasztás",
+    "Tariff band": "Tarifasáv",
+    "{tariff}: Base": "{tariff}: alapdíj",
+    "Cost": "Költség",
+    "Currency": "Pénznem",
+    "Quality": "Minőség",
+    "Filled": "Kitöltve",
+    "Total": "Összesen",
+    "Costs": "Költségek",
+    "Consumption": "Fogyasztás",
+    "Total ({currency}): {consumption}": "Összesen ({currency}): {consumption}",
+    "Consumption per interval": "Fogyasztás időszakonként",
+    "{hours}-hour day": "{hours} órás nap",
+    "Includes a {hours}-hour day": "{hours} órás napot tartalmaz",
+    "Clocks go forward {hours}h": "Óraátállítás előre {hours} órával",
+    "Clocks go back {hours}h": "Óraátállítás vissza {hours} órával",
+
+    // Data quality
+    "Data quality:": "Adatminőség:",
+    "No issues found": "Nincs hiba",
+    "Flagged only": "Csak a megjelöltek",
+    "{count} of {total} rows flagged": "{total} sorból {count} megjelölve",
+    "Negative diff": "Negatív fogyasztás",
+    "Frozen counter": "Álló számláló",
+    "Spike": "Kiugró érték",
+    "Negative diff {diff}, counter reset or meter replacement": "Negatív fogyasztás ({diff}), számláló nullázás vagy mérőcsere",
+    "{count} interval missing before": "{count} időszak hiányzik előtte",
+    "{count} intervals missing before": "{count} időszak hiányzik előtte",
+    "Diff {diff} is {factor}x the median {median}": "A fogyasztás ({diff}) a medián ({median}) {factor}-szorosa",
+    "Counter unchanged for {count} or more intervals": "A számláló legalább {count} időszakon át nem változott",
+
+    // Server errors
+    "Server is not reachable: {error}": "A szerver nem érhető el: {error}",
+    "Invalid JSON response from {path}": "Érvénytelen JSON válasz: {path}",
+    "Your session has expired, please log in again": "A munkamenet lejárt, jelentkezzen be újra",
+    "Permission denied: {reason}": "Hozzáférés megtagadva: {reason}",
+    "your role does not allow this operation": "a szerepköre nem engedi ezt a műveletet",
+    "Unexpected response from {path}: {field} {message}": "Váratlan válasz: {path}: {field} {message}",
+
+    // Import
+    "Import energy meters": "Fogyasztásmérők importálása",
+    "Import channels": "Csatornák importálása",
+    "Upload": "Feltöltés",
+    "Map columns": "Oszlopok megfeleltetése",
+    "Preview": "Előnézet",
+    "CSV file with header row": "CSV fájl fejléc sorral",
+    "The file has no data rows": "A fájlban nincs adatsor",
+    "Energy meter (id, IP address or asset name)": "Fogyasztásmérő (azonosító, IP-cím vagy eszköznév)",
+    "Default: {value}": "Alapértelmezés: {value}",
+    "Select column": "Válasszon oszlopot",
+    "{field}: unknown energy meter \"{text}\"": "{field}: ismeretlen fogyasztásmérő: \"{text}\"",
+    "{count} of {total} rows are valid, rows with errors will be skipped.": "{total} sorból {count} érvényes, a hibás sorok kimaradnak.",
+    "Line": "Sor",
+    "Status": "Állapot",
+    "Errors": "Hibák",
+    "OK": "Rendben",
+    "Error": "Hiba",
+    "Back": "Vissza",
+    "Validate": "Ellenőrzés",
+    "Import {count} rows": "{count} sor importálása",
+    "Download rejected rows": "Elutasított sorok letöltése",
+    "Created {count} of {total} rows, rejected {rejected}.": "{total} sorból {count} létrehozva, {rejected} elutasítva.",
+
+    // Report presets
+    "Report preset": "Mentett riport",
+    "Saved report preset: {name}": "Riport mentve: {name}",
+    "Name": "Név",
+    "Name:": "Név:",
+    "Period": "Időszak",
+    "Period:": "Időszak:",
+    "Select period": "Válasszon időszakot",
+    "The report period {from} - {to} matches no relative period, choose the period of the preset": "A riport időszaka ({from} - {to}) nem felel meg egyik relatív időszaknak sem, válassza ki a mentett riport időszakát",
+    "Today": "Ma",
+    "Yesterday": "Tegnap",
+    "Last 7 days": "Elmúlt 7 nap",
+    "Week to date": "Hét eleje óta",
+    "Last week": "Előző hét",
+    "Month to date": "Hónap eleje óta",
+    "Last month": "Előző hónap",
+    "Year to date": "Év eleje óta",
+    "Last year": "Előző év",
+    "Scheduled:": "Ütemezve:",
+    "Every:": "Gyakoriság:",
+    "File format:": "Fájlformátum:",
+    "Recipients:": "Címzettek:",
+    "E-mail addresses": "E-mail címek",
+    "Save": "Mentés",
+    "Started run of {name}": "{name} futtatása elindult",
+    "Confirmation": "Megerősítés",
+    "Delete {name} with its run history?": "Törli a(z) {name} riportot a futtatási előzményeivel együtt?",
+    "Deleted report preset: {name}": "Riport törölve: {name}",
+    "{meters} ({count} channels)": "{meters} ({count} csatorna)",
+    "Manual": "Kézi",
+    "Schedule": "Ütemezés",
+    "{frequency}, {format} to {recipients}": "{frequency}, {format}, címzettek: {recipients}",
+    "Next run: {time}": "Következő futás: {time}",
+    "Run report": "Riport futtatása",
+    "Generate and deliver export now": "Export elkészítése és kézbesítése most",
+    "Edit": "Szerkesztés",
+    "No saved presets, save one on the Home page": "Nincs mentett riport, a Kezdőlapon menthet egyet",
+    "Energy meters": "Fogyasztásmérők",
+    "Details": "Részletesség",
+    "Actions": "Műveletek",
+    "Run history of {name}": "{name} futtatási előzményei",
+    "Not run yet": "Még nem futott",
+    "Started": "Kezdete",
+    "Finished": "Vége",
+    "Trigger": "Indítás",
+    "Result": "Eredmény",
+    "Download": "Letöltés",
+    "Running": "Fut",
+    "Success": "Sikeres",
+    "Failed": "Sikertelen",
+
+    // Dashboard
+    "Fleet status": "Mérők állapota",
+    "Stale after (min)": "Elavult ennyi után (perc)",
+    "Offline after (min)": "Nem elérhető ennyi után (perc)",
+    "Refresh (s)": "Frissítés (mp)",
+    "Updated: {time}": "Frissítve: {time}",
+    "Stale": "Elavult",
+    "Disabled": "Letiltva",
+    "Online: {count}": "Elérhető: {count}",
+    "Stale: {count}": "Elavult: {count}",
+    "Offline: {count}": "Nem elérhető: {count}",
+    "Disabled: {count}": "Letiltva: {count}",
+    "State": "Állapot",
+    "Last reading": "Utolsó leolvasás",
+    "{time} ({minutes} min ago)": "{time} ({minutes} perce)",
+    "Enabled channels without recent data": "Friss adat nélküli engedélyezett csatornák",
+
+    // Tariffs
+    "Tariff": "Tarifa",
+    "Updated tariff: {name}": "Tarifa módosítva: {name}",
+    "Saved tariff: {name}": "Tarifa mentve: {name}",
+    "Deleted tariff: {name}": "Tarifa törölve: {name}",
+    "Default": "Alapértelmezett",
+    "Flat": "Egységes",
+    "Time-of-use": "Időszakos",
+    "Base": "Alapdíj",
+    "Type": "Típus",
+    "Type:": "Típus:",
+    "Currency:": "Pénznem:",
+    "Select currency": "Válasszon pénznemet",
+    "Rate": "Díj",
+    "Rate:": "Díj:",
+    "Base rate:": "Alapdíj:",
+    "Rates": "Díjak",
+    "Bands:": "Sávok:",
+    "Days": "Napok",
+    "Mon": "H",
+    "Tue": "K",
+    "Wed": "Sze",
+    "Thu": "Cs",
+    "Fri": "P",
+    "Sat": "Szo",
+    "Sun": "V",
+    "Add band": "Sáv hozzáadása",
+    "Valid:": "Érvényes:",
+    "Until revoked": "Visszavonásig",
+    "Valid from": "Érvényes ettől",
+    "Valid to": "Érvényes eddig",
+    "Assigned to": "Hozzárendelve",
+    "Assigned to:": "Hozzárendelve:",
+    "All energy meters": "Minden fogyasztásmérő",
+    "Are you sure you want to delete item?": "Biztosan törli az elemet?",
+    "Select one": "Kijelölés",
+
+    // Audit log
+    "All entities": "Minden adattípus",
+    "Id: {id}": "Azonosító: {id}",
+    "User": "Felhasználó",
+    "Date range": "Időszak",
+    "Clear": "Törlés",
+    "Time": "Időpont",
+    "Entity": "Adat",
+    "Action": "Művelet",
+    "Changes": "Változások",
+    "Create": "Létrehozás",
+    "Update": "Módosítás",
+
+    // Validation
+    "Required": "Kötelező",
+    "Expected {expected}, received {received}": "Várt típus: {expected}, kapott: {received}",
+    "Invalid value, expected one of {options}": "Érvénytelen érték, lehetséges értékek: {options}",
+    "Invalid date": "Érvénytelen dátum",
+    "Invalid e-mail address": "Érvénytelen e-mail cím",
+    "Invalid IP address": "Érvénytelen IP-cím",
+    "Invalid format": "Érvénytelen formátum",
+    "Invalid value": "Érvénytelen érték",
+    "Must contain at least {minimum} characters": "Legalább {minimum} karakter szükséges",
+    "Must contain at most {maximum} characters": "Legfeljebb {maximum} karakter lehet",
+    "Select at least one item": "Válasszon legalább egy elemet",
+    "Select at least {minimum} items": "Válasszon legalább {minimum} elemet",
+    "Select at most {maximum} items": "Legfeljebb {maximum} elem választható",
+    "Must be at least {minimum}": "Legalább {minimum} legyen",
+    "Must be greater than {minimum}": "Nagyobb legyen, mint {minimum}",
+    "Must be at most {maximum}": "Legfeljebb {maximum} legyen",
+    "Must be less than {maximum}": "Kisebb legyen, mint {maximum}",
+    "Time must be HH:mm": "Az időpont formátuma ÓÓ:pp",
+    "Time-of-use tariffs need at least one band": "Az időszakos tarifához legalább egy sáv kell",
+    "Validity must not end before its start": "Az érvényesség nem érhet véget a kezdete előtt",
+    "Scheduled reports need at least one recipient": "Az ütemezett riporthoz legalább egy címzett kell",
+};
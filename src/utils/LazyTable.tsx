@@ -0,0 +1,44 @@
+import { DataTableFilterMeta, DataTableStateEvent } from "primereact/datatable";
+import { ListParams, SortParam } from "./ApiClient";
+
+/**
+ * Filters of the DataTable with a value, in the format of the CRUD RestAPI
+ * @param filters DataTable filters
+ * @returns field filters with value and match mode
+ */
+export function activeFilters(filters: DataTableFilterMeta): Record<string, { value: unknown, matchMode?: string }> {
+    const result: Record<string, { value: unknown, matchMode?: string }> = {};
+    Object.entries(filters).forEach(([field, meta]) => {
+        if ("value" in meta && meta.value !== null && meta.value !== undefined && meta.value !== '') {
+            result[field] = { value: meta.value, matchMode: meta.matchMode };
+        }
+    });
+    return result;
+}
+
+/**
+ * Sort columns of the DataTable
+ * @param state lazy DataTable state
+ */
+export function sortParams(state: DataTableStateEvent): SortParam[] {
+    if (state.multiSortMeta && state.multiSortMeta.length > 0) {
+        return state.multiSortMeta.filter((meta) => meta.order).map((meta) => ({ field: meta.field, order: meta.order === -1 ? -1 : 1 }));
+    }
+    if (state.sortField && state.sortOrder) {
+        return [{ field: state.sortField, order: state.sortOrder === -1 ? -1 : 1 }];
+    }
+    return [];
+}
+
+/**
+ * CRUD list call parameters of a lazy DataTable state
+ * @param state lazy DataTable state
+ */
+export function lazyListParams(state: DataTableStateEvent): ListParams {
+    return {
+        first: state.first,
+        rows: state.rows,
+        filters: activeFilters(state.filters),
+        sort: sortParams(state),
+    };
+}
@@ -0,0 +1,40 @@
+/**
+ * Roles of users
+ */
+export type Role = "viewer" | "operator" | "admin";
+
+export const roles: Role[] = ["viewer", "operator", "admin"];
+
+/**
+ * Permissions of the UI
+ */
+export type Permission =
+    /** Run measurement reports */
+    "report:run" |
+    /** View energy meters, channels and fleet status */
+    "config:view" |
+    /** Enable and disable channels */
+    "channel:toggle" |
+    /** Create, modify, import and delete energy meters and channels */
+    "config:edit" |
+    /** View the audit log of configuration changes */
+    "audit:view";
+
+/**
+ * Permissions granted to roles
+ */
+const rolePermissions: Record<Role, Permission[]> = {
+    viewer: ["report:run"],
+    operator: ["report:run", "config:view", "channel:toggle", "audit:view"],
+    admin: ["report:run", "config:view", "channel:toggle", "config:edit", "audit:view"],
+};
+
+/**
+ * Check a permission of a user
+ * @param user the logged in user
+ * @param permission the required permission
+ * @returns true when the role of user grants the permission
+ */
+export function hasPermission(user: User | null, permission: Permission): boolean {
+    return user !== null && rolePermissions[user.role].includes(permission);
+}
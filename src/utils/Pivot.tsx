@@ -0,0 +1,79 @@
+import { ExportColumn } from "./Converter";
+import { channelKey } from "./Report";
+
+/**
+ * A report interval with the consumption of every channel in its own field
+ */
+export interface PivotRow {
+    recorded_time: number;
+    from_time?: string;
+    to_time?: string;
+    time_zone?: string;
+    dst?: string;
+    total: number | null;
+    [field: string]: number | string | null | undefined;
+}
+
+/**
+ * Pivoted measurements report
+ */
+export interface PivotReport {
+    rows: PivotRow[];
+    /**
+     * Time, channel and total columns of table and export
+     */
+    columns: ExportColumn[];
+}
+
+/**
+ * Pivot report rows into one row per interval and one consumption column per channel, with the total consumption of the interval.
+ * The displayed times of an interval are taken from its first row.
+ * Channel columns are labelled with the channel name, prefixed with the asset name when several energy meters are reported.
+ * @param rows the report rows
+ * @returns the pivoted rows ordered by time
+ */
+export function pivotReport(rows: ReportRow[]): PivotReport {
+    const channels: ReportRow[] = [];
+    rows.forEach((row) => {
+        if (!channels.some((item) => item.ip_address === row.ip_address && item.channel === row.channel)) {
+            channels.push(row);
+        }
+    });
+    channels.sort((a, b) => a.asset_name.localeCompare(b.asset_name) || a.channel - b.channel);
+    const multipleMeters = new Set(channels.map((item) => item.ip_address)).size > 1;
+    // Field names of the channels, the keys contain dots which DataTable would resolve as nested fields
+    const fields = new Map(channels.map((item, idx) => [channelKey(item.ip_address, item.channel), `channel_${idx}`]));
+
+    const intervals = new Map<number, PivotRow>();
+    rows.forEach((row) => {
+        const interval = intervals.get(row.recorded_time) ?? {
+            recorded_time: row.recorded_time,
+            from_time: row.from_time,
+            to_time: row.to_time,
+            time_zone: row.time_zone,
+            dst: row.dst,
+            total: null,
+        };
+        const diff = row.diff ?? null;
+        interval[fields.get(channelKey(row.ip_address, row.channel)) ?? ''] = diff;
+        if (diff !== null) {
+            interval.total = (interval.total ?? 0) + diff;
+        }
+        intervals.set(row.recorded_time, interval);
+    });
+
+    return {
+        rows: Array.from(intervals.values()).sort((a, b) => a.recorded_time - b.recorded_time),
+        columns: [
+            { field: "from_time", header: "From" },
+            { field: "to_time", header: "To" },
+            { field: "time_zone", header: "Time zone" },
+            { field: "dst", header: "DST" },
+            ...channels.map((item) => ({
+                field: fields.get(channelKey(item.ip_address, item.channel)) ?? '',
+                header: multipleMeters ? `${item.asset_name} ${item.channel_name}` : item.channel_name,
+            })),
+            { field: "total", header: "Total" },
+        ],
+    };
+}
@@ -0,0 +1,90 @@
+import dayjs from "dayjs";
+import { reportToSearchParams } from "./Report";
+
+/**
+ * Date ranges of report presets relative to the day of the run
+ */
+export type RelativeRange = "today" | "yesterday" | "last_7_days" | "week_to_date" | "last_week" | "month_to_date" | "last_month" | "year_to_date" | "last_year";
+
+/**
+ * Selectable relative date ranges
+ */
+export const relativeRanges: { label: string, value: RelativeRange }[] = [
+    { label: 'Today', value: 'today' },
+    { label: 'Yesterday', value: 'yesterday' },
+    { label: 'Last 7 days', value: 'last_7_days' },
+    { label: 'Week to date', value: 'week_to_date' },
+    { label: 'Last week', value: 'last_week' },
+    { label: 'Month to date', value: 'month_to_date' },
+    { label: 'Last month', value: 'last_month' },
+    { label: 'Year to date', value: 'year_to_date' },
+    { label: 'Last year', value: 'last_year' },
+];
+
+/**
+ * Resolve a relative date range. Weeks start on Monday.
+ * @param range the relative date range
+ * @param now the day of the run
+ * @returns first and last day of the range
+ */
+export function resolveRange(range: RelativeRange, now: dayjs.Dayjs = dayjs()): { fromDate: Date, toDate: Date } {
+    const today = now.startOf("day");
+    const monday = today.subtract((today.day() + 6) % 7, "day");
+    const ranges: Record<RelativeRange, [dayjs.Dayjs, dayjs.Dayjs]> = {
+        today: [today, today],
+        yesterday: [today.subtract(1, "day"), today.subtract(1, "day")],
+        last_7_days: [today.subtract(6, "day"), today],
+        week_to_date: [monday, today],
+        last_week: [monday.subtract(7, "day"), monday.subtract(1, "day")],
+        month_to_date: [today.startOf("month"), today],
+        last_month: [today.subtract(1, "month").startOf("month"), today.subtract(1, "month").endOf("month").startOf("day")],
+        year_to_date: [today.startOf("year"), today],
+        last_year: [today.subtract(1, "year").startOf("year"), today.subtract(1, "year").endOf("year").startOf("day")],
+    };
+    const [from, to] = ranges[range];
+    return { fromDate: from.toDate(), toDate: to.toDate() };
+}
+
+/**
+ * Display name of a relative date range
+ * @param range the relative date range
+ */
+export function rangeLabel(range: RelativeRange): string {
+    return relativeRanges.find((item) => item.value === range)?.label ?? range;
+}
+
+/**
+ * Report form values of a preset
+ * @param preset the report preset
+ * @param now the day of the run
+ */
+export function presetToFormValues(preset: ReportPreset, now: dayjs.Dayjs = dayjs()): FormValues {
+    return {
+        ...resolveRange(preset.date_range, now),
+        ipAddresses: preset.ip_addresses,
+        channels: preset.channels,
+        details: preset.details,
+        gapFill: preset.gap_fill,
+    };
+}
+
+/**
+ * URL query parameters of Home running a preset
+ * @param preset the report preset
+ */
+export function presetSearchParams(preset: ReportPreset): URLSearchParams {
+    return reportToSearchParams(presetToFormValues(preset));
+}
+
+/**
+ * The relative date range matching a fixed period today
+ * @param fromDate first day of the period
+ * @param toDate last day of the period
+ * @returns the matching range, undefined when none of them matches
+ */
+export function matchingRange(fromDate: Date, toDate: Date): RelativeRange | undefined {
+    return relativeRanges.map((item) => item.value).find((range) => {
+        const resolved = resolveRange(range);
+        return dayjs(resolved.fromDate).isSame(fromDate, "day") && dayjs(resolved.toDate).isSame(toDate, "day");
+    });
+}
@@ -0,0 +1,122 @@
+import { recordedAt, reportInterval } from "./Report";
+import { Translate, untranslated } from "./I18n";
+
+/**
+ * Data-quality rules of measurement reports
+ */
+export type QualityRule = "negative_diff" | "missing_interval" | "frozen_counter" | "spike";
+
+/**
+ * Display names of data-quality rules
+ */
+export const qualityRules: { rule: QualityRule, label: string }[] = [
+    { rule: "negative_diff", label: "Negative diff" },
+    { rule: "missing_interval", label: "Missing intervals" },
+    { rule: "frozen_counter", label: "Frozen counter" },
+    { rule: "spike", label: "Spike" },
+];
+
+/**
+ * Thresholds of data-quality rules
+ */
+export interface QualityOptions {
+    /**
+     * Count of consecutive intervals without consumption flagged as frozen counter
+     */
+    frozenIntervals: number;
+    /**
+     * A diff this many times greater than the median diff of its channel is a spike
+     */
+    spikeFactor: number;
+    /**
+     * Minimal count of intervals with consumption to calculate the median of a channel
+     */
+    spikeMinSamples: number;
+}
+
+export const defaultQualityOptions: QualityOptions = { frozenIntervals: 3, spikeFactor: 5, spikeMinSamples: 4 };
+
+/**
+ * Median of numbers
+ * @param values the numbers, not empty
+ */
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Run the data-quality rules over report rows. Rows are checked by channel in time order.
+ * @param rows the report rows
+ * @param details the report details, the length of intervals
+ * @param options thresholds of rules
+ * @param t translation of the reasons
+ * @returns the rows with the violated rules and their reasons
+ */
+export function checkQuality(rows: ReportRow[], details: string, options: QualityOptions = defaultQualityOptions, t: Translate = untranslated): ReportRow[] {
+    const issues = new Map<ReportRow, { rule: QualityRule, reason: string }[]>();
+    const flag = (row: ReportRow, rule: QualityRule, reason: string) => {
+        issues.set(row, [...(issues.get(row) ?? []), { rule, reason }]);
+    };
+
+    const series = new Map<string, ReportRow[]>();
+    rows.forEach((row) => {
+        const key = `${row.ip_address}:${row.channel}`;
+        series.set(key, [...(series.get(key) ?? []), row]);
+    });
+
+    const interval = reportInterval(details);
+    series.forEach((channelRows) => {
+        const sorted = [...channelRows].sort((a, b) => a.recorded_time - b.recorded_time);
+        const positiveDiffs = sorted.map((row) => row.diff ?? 0).filter((diff) => diff > 0);
+        const typical = positiveDiffs.length >= options.spikeMinSamples ? median(positiveDiffs) : undefined;
+        let frozen: ReportRow[] = [];
+
+        sorted.forEach((row, index) => {
+            if (row.diff !== undefined && row.diff < 0) {
+                flag(row, "negative_diff", t("Negative diff {diff}, counter reset or meter replacement", { diff: row.diff }));
+            }
+
+            if (index > 0) {
+                const missing = Math.round(recordedAt(row).diff(recordedAt(sorted[index - 1]), interval.unit, true) / interval.amount) - 1;
+                if (missing > 0) {
+                    flag(row, "missing_interval", t(missing > 1 ? "{count} intervals missing before" : "{count} interval missing before", { count: missing }));
+                }
+            }
+
+            if (typical !== undefined && row.diff !== undefined && row.diff > typical * options.spikeFactor) {
+                flag(row, "spike", t("Diff {diff} is {factor}x the median {median}", { diff: row.diff, factor: Math.round(row.diff / typical), median: typical }));
+            }
+
+            if (row.diff === 0) {
+                frozen.push(row);
+            } else {
+                frozen = [];
+            }
+            if (frozen.length === options.frozenIntervals) {
+                frozen.forEach((item) => flag(item, "frozen_counter", t("Counter unchanged for {count} or more intervals", { count: options.frozenIntervals })));
+            } else if (frozen.length > options.frozenIntervals) {
+                flag(row, "frozen_counter", t("Counter unchanged for {count} or more intervals", { count: options.frozenIntervals }));
+            }
+        });
+    });
+
+    return rows.map((row) => {
+        const rowIssues = issues.get(row);
+        if (!rowIssues) {
+            return row;
+        }
+        return { ...row, quality_rules: rowIssues.map((issue) => issue.rule), quality: rowIssues.map((issue) => issue.reason).join("; ") };
+    });
+}
+
+/**
+ * Count flagged rows by rule
+ * @param rows the checked report rows
+ */
+export function qualitySummary(rows: ReportRow[]): Record<QualityRule, number> {
+    const summary: Record<QualityRule, number> = { negative_diff: 0, missing_interval: 0, frozen_counter: 0, spike: 0 };
+    rows.forEach((row) => (row.quality_rules ?? []).forEach((rule) => summary[rule]++));
+    return summary;
+}
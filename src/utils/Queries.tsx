@@ -0,0 +1,53 @@
+import { fetchChannels, fetchEnergyMeters, fetchReportPresets, fetchTariffs } from "./ApiClient";
+
+/**
+ * React query of all energy meters
+ */
+export const energyMetersQuery = {
+    queryKey: ["energy_meter"],
+    queryFn: () => fetchEnergyMeters(),
+};
+
+/**
+ * React query of an energy meter, null when it does not exist
+ * @param id id of energy meter
+ */
+export function energyMeterQuery(id: number) {
+    return {
+        queryKey: ["energy_meter", "id", id],
+        queryFn: async () => {
+            const values = await fetchEnergyMeters({ filters: { id: id } });
+            return values.find((energyMeter) => energyMeter.id === id) ?? null;
+        },
+    };
+}
+
+/**
+ * React query of the channels of energy meters
+ * @param energyMeterIds ids of energy meters
+ */
+export function channelsOfEnergyMetersQuery(energyMeterIds: number[]) {
+    return {
+        queryKey: ["channels", "energy_meters", energyMeterIds],
+        queryFn: async () => {
+            const values = await Promise.all(energyMeterIds.map((energy_meter_id) => fetchChannels({ filters: { energy_meter_id: energy_meter_id } })));
+            return values.flat();
+        },
+    };
+}
+
+/**
+ * React query of all tariffs
+ */
+export const tariffsQuery = {
+    queryKey: ["tariffs"],
+    queryFn: () => fetchTariffs(),
+};
+
+/**
+ * React query of all report presets of the user
+ */
+export const reportPresetsQuery = {
+    queryKey: ["report_presets"],
+    queryFn: () => fetchReportPresets(),
+};
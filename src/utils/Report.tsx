@@ -0,0 +1,179 @@
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { errorMessage, fetchReport } from "./ApiClient";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * Time of a measurement
+ * @param element the measurement
+ */
+export function recordedAt(element: Pick<RecElement, "recorded_time">): dayjs.Dayjs {
+    return dayjs.unix(element.recorded_time);
+}
+
+/**
+ * Start of the measured interval of a report row
+ * @param row the report row
+ */
+export function intervalStart(row: Pick<ReportRow, "recorded_time" | "from_utc_time">): dayjs.Dayjs {
+    const from = row.from_utc_time ? dayjs.utc(row.from_utc_time) : undefined;
+    return from && from.isValid() ? from : recordedAt(row);
+}
+
+/**
+ * Length of report intervals
+ */
+export interface ReportInterval {
+    amount: number;
+    unit: dayjs.ManipulateType;
+}
+
+/**
+ * Length of the intervals of report details
+ * @param details the report details
+ */
+export function reportInterval(details: string): ReportInterval {
+    switch (details) {
+        case "15min":
+            return { amount: 15, unit: "minute" };
+        case "daily":
+            return { amount: 1, unit: "day" };
+        case "weekly":
+            return { amount: 1, unit: "week" };
+        case "monthly":
+            return { amount: 1, unit: "month" };
+        case "quarterly":
+            return { amount: 3, unit: "month" };
+        case "yearly":
+            return { amount: 1, unit: "year" };
+        default:
+            return { amount: 1, unit: "hour" };
+    }
+}
+
+/**
+ * Shift a time by report intervals in a time zone. Intervals of a day or longer keep the local time of day across DST changes,
+ * shorter ones are counted in UTC, so they never land on a local time skipped by the clock change.
+ * @param time the time in the time zone
+ * @param interval length of the interval
+ * @param timeZone the time zone
+ * @param count number of intervals, negative to shift backwards
+ */
+export function addInterval(time: dayjs.Dayjs, interval: ReportInterval, timeZone: string, count = 1): dayjs.Dayjs {
+    if (interval.unit === "minute" || interval.unit === "hour") {
+        return time.utc().add(interval.amount * count, interval.unit).tz(timeZone);
+    }
+    return dayjs.tz(time.add(interval.amount * count, interval.unit).format("YYYY-MM-DD HH:mm:ss"), timeZone);
+}
+
+/**
+ * Key of a channel in the report form
+ * @param ip_address IP address of energy meter
+ * @param channel channel number
+ */
+export function channelKey(ip_address: string, channel: number): string {
+    return `${ip_address}:${channel}`;
+}
+
+/**
+ * Serialize report form values into URL query parameters
+ * @param values the report form values
+ */
+export function reportToSearchParams(values: FormValues): URLSearchParams {
+    const params = new URLSearchParams();
+    params.set("fromDate", dayjs(values.fromDate).format("YYYY-MM-DD"));
+    params.set("toDate", dayjs(values.toDate).format("YYYY-MM-DD"));
+    values.ipAddresses.forEach((ipAddress) => params.append("ipAddress", ipAddress));
+    values.channels.forEach((channel) => params.append("channel", channel));
+    params.set("details", values.details);
+    if (values.gapFill && values.gapFill !== "none") {
+        params.set("gapFill", values.gapFill);
+    }
+    return params;
+}
+
+/**
+ * Parse report form values from URL query parameters
+ * @param params URL query parameters
+ * @returns the report form values, null when the parameters do not describe a report
+ */
+export function reportFromSearchParams(params: URLSearchParams): FormValues | null {
+    const fromDate = dayjs(params.get("fromDate") ?? "");
+    const toDate = dayjs(params.get("toDate") ?? "");
+    const ipAddresses = params.getAll("ipAddress");
+    const details = params.get("details");
+    const gapFill = params.get("gapFill");
+    if (!fromDate.isValid() || !toDate.isValid() || ipAddresses.length === 0 || !details) {
+        return null;
+    }
+    return {
+        fromDate: fromDate.toDate(),
+        toDate: toDate.toDate(),
+        ipAddresses: ipAddresses,
+        channels: params.getAll("channel"),
+        details: details,
+        gapFill: gapFill === "empty" || gapFill === "carry" || gapFill === "linear" ? gapFill : "none",
+    };
+}
+
+/**
+ * Result of a merged measurements report
+ */
+export interface MergedReport {
+    rows: ReportRow[];
+    /**
+     * Error messages of failed requests, the rows of successful ones are kept
+     */
+    errors: string[];
+}
+
+/**
+ * Fetch the measurements report of all selected energy meters and channels in parallel and merge them into one list
+ * @param params the report form values
+ * @param energyMeters all known energy meters
+ * @param channels channels of the selected energy meters
+ * @returns the merged rows ordered by time, asset name and channel
+ */
+export async function fetchMergedReport(params: FormValues, energyMeters: EnergyMeterValues[], channels: ChannelValues[]): Promise<MergedReport> {
+    const requests = params.ipAddresses.flatMap((ipAddress) => {
+        const energyMeter = energyMeters.find((item) => item.ip_address === ipAddress);
+        const meterChannels = channels.filter((item) => energyMeter && item.energy_meter_id === energyMeter.id);
+        const selected = meterChannels.filter((item) => params.channels.includes(channelKey(ipAddress, item.channel)));
+        const channelNumbers: (number | undefined)[] = selected.length > 0 ? selected.map((item) => item.channel) : [undefined];
+        return channelNumbers.map((channel) => ({ ipAddress, channel, energyMeter, meterChannels }));
+    });
+
+    const results = await Promise.allSettled(requests.map((item) => fetchReport({
+        fromDate: params.fromDate,
+        toDate: params.toDate,
+        ipAddress: item.ipAddress,
+        channel: item.channel,
+        details: params.details,
+    })));
+
+    const rows: ReportRow[] = [];
+    const errors: string[] = [];
+    results.forEach((result, idx) => {
+        const { ipAddress, energyMeter, meterChannels } = requests[idx];
+        const assetName = energyMeter ? energyMeter.asset_name : ipAddress;
+        if (result.status === "rejected") {
+            errors.push(`${assetName}: ${errorMessage(result.reason)}`);
+            return;
+        }
+        result.value.forEach((element) => {
+            const channel = meterChannels.find((item) => item.channel === element.channel);
+            rows.push({
+                ...element,
+                asset_name: assetName,
+                ip_address: ipAddress,
+                channel_name: channel ? channel.channel_name : `Channel ${element.channel}`,
+            });
+        });
+    });
+
+    rows.sort((a, b) => a.recorded_time - b.recorded_time || a.asset_name.localeCompare(b.asset_name) || a.channel - b.channel);
+    return { rows, errors };
+}
@@ -0,0 +1,74 @@
+import * as z from 'zod';
+
+/**
+ * The Zod validation schema of energy meter form data
+ */
+export const energyMeterFormSchema = z.object({
+    asset_name: z.string().nonempty(),
+    ip_address: z.string().ip("v4").nonempty(),
+    port: z.number().min(1),
+    time_zone: z.string().nonempty(),
+    enabled: z.boolean()
+});
+
+/**
+ * The Zod validation schema of channel form data
+ */
+export const channelFormSchema = z.object({
+    energy_meter_id: z.number(),
+    channel: z.number().min(1),
+    channel_name: z.string().nonempty(),
+    enabled: z.boolean()
+});
+
+/**
+ * Time of day, HH:mm
+ */
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm");
+
+/**
+ * The Zod validation schema of a time-of-use tariff band
+ */
+export const tariffBandFormSchema = z.object({
+    name: z.string().nonempty(),
+    rate: z.number().min(0),
+    start_time: timeOfDay,
+    end_time: timeOfDay,
+    days: z.array(z.number().min(0).max(6)).nonempty(),
+});
+
+/**
+ * The Zod validation schema of tariff form data
+ */
+export const tariffFormSchema = z.object({
+    name: z.string().nonempty(),
+    type: z.enum(["flat", "tou"]),
+    currency: z.string().length(3),
+    rate: z.number().min(0),
+    bands: z.array(tariffBandFormSchema),
+    valid_from: z.date(),
+    valid_to: z.date().nullable(),
+    energy_meter_id: z.number().nullable(),
+    channel_id: z.number().nullable(),
+}).refine((values) => values.type === "flat" || values.bands.length > 0, {
+    message: "Time-of-use tariffs need at least one band",
+    path: ["bands"],
+}).refine((values) => !values.valid_to || values.valid_to >= values.valid_from, {
+    message: "Validity must not end before its start",
+    path: ["valid_to"],
+});
+
+/**
+ * The Zod validation schema of report preset form data
+ */
+export const reportPresetFormSchema = z.object({
+    name: z.string().nonempty(),
+    date_range: z.string().nonempty(),
+    scheduled: z.boolean(),
+    frequency: z.enum(["daily", "weekly", "monthly"]),
+    format: z.enum(["csv", "xlsx", "json"]),
+    recipients: z.array(z.string().email()),
+}).refine((values) => !values.scheduled || values.recipients.length > 0, {
+    message: "Scheduled reports need at least one recipient",
+    path: ["recipients"],
+});
@@ -0,0 +1,180 @@
+import dayjs from "dayjs";
+import utc from 'dayjs/plugin/utc'
+import timezone from 'dayjs/plugin/timezone'
+import { intervalStart } from "./Report";
+import { Translate, untranslated } from "./I18n";
+
+dayjs.extend(utc)
+dayjs.extend(timezone)
+
+/**
+ * Minutes since midnight of a HH:mm time
+ * @param time the time of day
+ */
+function minutesOf(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Check the validity range of a tariff
+ * @param tariff the tariff
+ * @param day the day, YYYY-MM-DD
+ */
+export function isTariffValid(tariff: TariffValues, day: string): boolean {
+    return tariff.valid_from <= day && (!tariff.valid_to || day <= tariff.valid_to);
+}
+
+/**
+ * Find the tariff of a channel on a day. A channel tariff overrides the tariff of its energy meter, which overrides the default tariffs without assignment.
+ * The latest started one wins among overlapping tariffs.
+ * @param tariffs all tariffs
+ * @param energyMeterId id of the energy meter
+ * @param channelId id of the channel, undefined when the channel is not configured
+ * @param day the day in the time zone of the energy meter, YYYY-MM-DD
+ */
+export function findTariff(tariffs: TariffValues[], energyMeterId: number, channelId: number | undefined, day: string): TariffValues | undefined {
+    const valid = tariffs.filter((tariff) => isTariffValid(tariff, day));
+    const latest = (items: TariffValues[]) => items.sort((a, b) => b.valid_from.localeCompare(a.valid_from))[0];
+    return latest(valid.filter((tariff) => channelId !== undefined && tariff.channel_id === channelId))
+        ?? latest(valid.filter((tariff) => tariff.channel_id === undefined && tariff.energy_meter_id === energyMeterId))
+        ?? latest(valid.filter((tariff) => tariff.channel_id === undefined && tariff.energy_meter_id === undefined));
+}
+
+/**
+ * The band of a tariff at a local time. Flat tariffs and times outside of all time-of-use bands use the base rate of the tariff.
+ * @param tariff the tariff
+ * @param local the time in the time zone of the energy meter
+ * @returns name and rate of the band, flagged when the base rate of a time-of-use tariff applies
+ */
+export function bandAt(tariff: TariffValues, local: dayjs.Dayjs): { name: string, rate: number, base?: boolean } {
+    if (tariff.type === "tou") {
+        const minutes = local.hour() * 60 + local.minute();
+        const day = local.day();
+        const band = tariff.bands.find((item) => {
+            const start = minutesOf(item.start_time);
+            const end = minutesOf(item.end_time);
+            if (start < end) {
+                return item.days.includes(day) && minutes >= start && minutes < end;
+            }
+            // A band over midnight belongs to the day of its start
+            return (item.days.includes(day) && minutes >= start) || (item.days.includes((day + 6) % 7) && minutes < end);
+        });
+        if (band) {
+            return { name: `${tariff.name}: ${band.name}`, rate: band.rate };
+        }
+        return { name: tariff.name, rate: tariff.rate, base: true };
+    }
+    return { name: tariff.name, rate: tariff.rate };
+}
+
+/**
+ * Report rows with costs
+ */
+export interface PricedReport {
+    rows: ReportRow[];
+    /**
+     * A time-of-use tariff was applied, its bands are exact only on 15-minute and hourly rows
+     */
+    timeOfUse: boolean;
+}
+
+/**
+ * Calculate the cost of report rows by the tariffs of their channels. Time-of-use bands are applied at the start of each row, in the time zone of its energy meter.
+ * @param rows the report rows
+ * @param tariffs all tariffs
+ * @param energyMeters all known energy meters
+ * @param channels channels of the reported energy meters
+ */
+export function priceReport(rows: ReportRow[], tariffs: TariffValues[], energyMeters: EnergyMeterValues[], channels: ChannelValues[]): PricedReport {
+    let timeOfUse = false;
+    const priced = rows.map((row) => {
+        const energyMeter = energyMeters.find((item) => item.ip_address === row.ip_address);
+        if (!energyMeter || row.diff === undefined) {
+            return row;
+        }
+        const channel = channels.find((item) => item.energy_meter_id === energyMeter.id && item.channel === row.channel);
+        const local = intervalStart(row).tz(energyMeter.time_zone);
+        const tariff = findTariff(tariffs, energyMeter.id, channel?.id, local.format("YYYY-MM-DD"));
+        if (!tariff) {
+            return row;
+        }
+        timeOfUse = timeOfUse || tariff.type === "tou";
+        const band = bandAt(tariff, local);
+        return { ...row, cost: row.diff * band.rate, currency: tariff.currency, tariff_band: band.name, tariff_base: band.base };
+    });
+    return { rows: priced, timeOfUse };
+}
+
+/**
+ * Label of the tariff band of a priced row or cost breakdown row
+ * @param row the row
+ * @param t translation of the label
+ * @returns the label, undefined on rows without tariff
+ */
+export function tariffBandLabel(row: Pick<ReportRow, "tariff_band" | "tariff_base">, t: Translate = untranslated): string | undefined {
+    if (row.tariff_band !== undefined && row.tariff_base) {
+        return t("{tariff}: Base", { tariff: row.tariff_band });
+    }
+    return row.tariff_band;
+}
+
+/**
+ * Consumption and cost of a tariff band
+ */
+export interface CostBreakdownRow {
+    tariff_band: string;
+    tariff_base?: boolean;
+    currency: string;
+    consumption: number;
+    cost: number;
+}
+
+/**
+ * Sum consumption and cost by tariff band
+ * @param rows the priced report rows
+ * @returns bands ordered by currency and name
+ */
+export function costBreakdown(rows: ReportRow[]): CostBreakdownRow[] {
+    const bands = new Map<string, CostBreakdownRow>();
+    rows.forEach((row) => {
+        if (row.cost === undefined || row.currency === undefined || row.tariff_band === undefined) {
+            return;
+        }
+        const key = `${row.currency}\u0000${row.tariff_band}\u0000${row.tariff_base ? "base" : ""}`;
+        const band = bands.get(key) ?? { tariff_band: row.tariff_band, tariff_base: row.tariff_base, currency: row.currency, consumption: 0, cost: 0 };
+        band.consumption += row.diff ?? 0;
+        band.cost += row.cost;
+        bands.set(key, band);
+    });
+    return Array.from(bands.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.tariff_band.localeCompare(b.tariff_band));
+}
+
+/**
+ * Sum the cost breakdown by currency
+ * @param breakdown the cost of tariff bands
+ */
+export function costTotals(breakdown: CostBreakdownRow[]): Omit<CostBreakdownRow, "tariff_band" | "tariff_base">[] {
+    const totals = new Map<string, Omit<CostBreakdownRow, "tariff_band" | "tariff_base">>();
+    breakdown.forEach((band) => {
+        const total = totals.get(band.currency) ?? { currency: band.currency, consumption: 0, cost: 0 };
+        total.consumption += band.consumption;
+        total.cost += band.cost;
+        totals.set(band.currency, total);
+    });
+    return Array.from(totals.values());
+}
+
+/**
+ * Display text of a cost
+ * @param value the cost
+ * @param currency ISO 4217 code of the currency
+ * @param locale BCP 47 locale of the format, the locale of the browser without it
+ */
+export function formatCost(value: number, currency: string, locale?: string): string {
+    try {
+        return new Intl.NumberFormat(locale, { style: "currency", currency: currency }).format(value);
+    } catch (err) {
+        return `${value.toFixed(2)} ${currency}`;
+    }
+}